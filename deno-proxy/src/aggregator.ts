@@ -1,6 +1,6 @@
 export class TextAggregator {
   private buffer = "";
-  private timer?: number;
+  private timer?: ReturnType<typeof setTimeout>;
 
   constructor(
     private readonly intervalMs: number,
@@ -38,6 +38,12 @@ export class TextAggregator {
     await this.onFlush(chunk);
   }
 
+  // 丢弃尚未发出的内容并取消定时器
+  discard() {
+    this.buffer = "";
+    this.clearTimer();
+  }
+
   private clearTimer() {
     if (this.timer) {
       clearTimeout(this.timer);
@@ -1,17 +1,40 @@
 import {
   ClaudeContentBlock,
+  ClaudeImageBlock,
   ClaudeMessage,
   ClaudeRequest,
+  ClaudeToolDefinition,
   OpenAIChatMessage,
   OpenAIChatRequest,
+  OpenAIContentPart,
+  OpenAIToolDefinition,
 } from "./types.ts";
-import { ProxyConfig } from "./config.ts";
+import { UpstreamConfig } from "./config.ts";
+import { ProxyError } from "./errors.ts";
+import { allowsParallelToolCalls, mapToolChoiceToOpenAI } from "./tool_choice.ts";
 
 // 思考模式相关的常量定义
 const THINKING_HINT = "<antml\b:thinking_mode>interleaved</antml><antml\b:max_thinking_length>16000</antml>";
 const THINKING_START_TAG = "<thinking>";
 const THINKING_END_TAG = "</thinking>";
 
+// 上游不支持图像输入时，用文字占位替代图片，让模型知道这里原本有一张图
+function imagePlaceholder(block: ClaudeImageBlock): string {
+  const source = block.source?.type === "base64"
+    ? block.source.media_type
+    : block.source?.type === "url"
+    ? block.source.url
+    : "unknown source";
+  return `[Image omitted: the upstream model does not support image input (${source})]`;
+}
+
+function imageUrl(block: ClaudeImageBlock): string {
+  if (block.source.type === "base64") {
+    return `data:${block.source.media_type};base64,${block.source.data}`;
+  }
+  return block.source.url;
+}
+
 function normalizeBlocks(content: string | ClaudeContentBlock[], triggerSignal?: string): string {
   if (typeof content === "string") {
     // 过滤掉纯文本中的工具协议标签，防止注入攻击或模型回显协议片段
@@ -48,17 +71,135 @@ function normalizeBlocks(content: string | ClaudeContentBlock[], triggerSignal?:
       const trigger = triggerSignal ? `${triggerSignal}\n` : "";
       return `${trigger}<invoke name="${block.name}">\n${params}\n</invoke>`;
     }
+    if (block.type === "image") {
+      return imagePlaceholder(block);
+    }
     return "";
   }).join("\n");
 }
 
+/**
+ * 上游支持视觉输入且消息中包含图片时，生成 OpenAI 多段 content：
+ * 连续的非图片块合并为一个 text 片段，图片转换为 image_url 片段。
+ * 其余情况退化为 normalizeBlocks 的纯文本结果。
+ */
+function buildContent(
+  content: string | ClaudeContentBlock[],
+  vision: boolean,
+  triggerSignal?: string,
+): string | OpenAIContentPart[] {
+  if (!vision || typeof content === "string" || !content.some((block) => block.type === "image")) {
+    return normalizeBlocks(content, triggerSignal);
+  }
+  const parts: OpenAIContentPart[] = [];
+  let pending: ClaudeContentBlock[] = [];
+  const flushPending = () => {
+    if (!pending.length) return;
+    const text = normalizeBlocks(pending, triggerSignal);
+    if (text) parts.push({ type: "text", text });
+    pending = [];
+  };
+  for (const block of content) {
+    if (block.type === "image") {
+      flushPending();
+      parts.push({ type: "image_url", image_url: { url: imageUrl(block) } });
+    } else {
+      pending.push(block);
+    }
+  }
+  flushPending();
+  return parts;
+}
+
+// 向消息末尾追加文本：多段 content 追加到最后一个 text 片段（没有则新增一个）
+function appendText(message: OpenAIChatMessage, text: string) {
+  if (message.content === null) return;
+  if (typeof message.content === "string") {
+    message.content += text;
+    return;
+  }
+  const last = message.content[message.content.length - 1];
+  if (last && last.type === "text") {
+    last.text += text;
+  } else {
+    message.content.push({ type: "text", text });
+  }
+}
+
 function mapRole(role: string): "user" | "assistant" {
   return role === "assistant" ? "assistant" : "user";
 }
 
-export function mapClaudeToOpenAI(body: ClaudeRequest, config: ProxyConfig, triggerSignal?: string): OpenAIChatRequest {
+function mapTools(tools: ClaudeToolDefinition[]): OpenAIToolDefinition[] {
+  return tools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema ?? { type: "object", properties: {} },
+    },
+  }));
+}
+
+/**
+ * 原生 function calling 模式下的消息转换：
+ * - assistant 的 tool_use 块转换为 tool_calls；
+ * - user 的 tool_result 块拆分为独立的 role=tool 消息（需要紧跟在对应的 tool_calls 之后）；
+ * - 其余块仍按 normalizeBlocks 转换为文本。
+ */
+function mapNativeToolMessage(message: ClaudeMessage, vision: boolean): OpenAIChatMessage[] {
+  if (typeof message.content === "string") {
+    return [{ role: mapRole(message.role), content: normalizeBlocks(message.content) }];
+  }
+
+  const otherBlocks = message.content.filter((block) =>
+    block.type !== "tool_use" && block.type !== "tool_result"
+  );
+  const text = otherBlocks.length ? normalizeBlocks(otherBlocks) : "";
+
+  if (message.role === "assistant") {
+    const toolCalls = message.content.flatMap((block) =>
+      block.type === "tool_use"
+        ? [{
+          id: block.id,
+          type: "function" as const,
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        }]
+        : []
+    );
+    if (!toolCalls.length) {
+      return [{ role: "assistant", content: text }];
+    }
+    return [{ role: "assistant", content: text || null, tool_calls: toolCalls }];
+  }
+
+  const messages: OpenAIChatMessage[] = message.content.flatMap((block) =>
+    block.type === "tool_result"
+      ? [{ role: "tool" as const, tool_call_id: block.tool_use_id, content: block.content ?? "" }]
+      : []
+  );
+  if (text || !messages.length) {
+    messages.push({ role: "user", content: buildContent(otherBlocks, vision) });
+  }
+  return messages;
+}
+
+// OpenAI chat/completions 的 stop 最多接受 4 个序列，其余的只在代理侧检查
+const MAX_UPSTREAM_STOP_SEQUENCES = 4;
+
+// 过滤掉空字符串等无效的停止序列
+export function validStopSequences(sequences: unknown): string[] {
+  if (!Array.isArray(sequences)) return [];
+  return sequences.filter((sequence): sequence is string => typeof sequence === "string" && sequence.length > 0);
+}
+
+export function mapClaudeToOpenAI(
+  body: ClaudeRequest,
+  upstream: UpstreamConfig,
+  triggerSignal?: string,
+): OpenAIChatRequest {
   if (typeof body.max_tokens !== "number" || Number.isNaN(body.max_tokens)) {
-    throw new Error("max_tokens is required for Claude requests");
+    throw new ProxyError("invalid_request_error", "max_tokens: Field required");
   }
 
   const messages: OpenAIChatMessage[] = [];
@@ -75,29 +216,40 @@ export function mapClaudeToOpenAI(body: ClaudeRequest, config: ProxyConfig, trig
     messages.push({ role: "system", content: systemContent });
   }
 
+  const thinkingEnabled = !!body.thinking && body.thinking.type === "enabled";
   for (const message of body.messages) {
-    let content = normalizeBlocks(message.content, triggerSignal);
+    if (upstream.nativeTools) {
+      const mapped = mapNativeToolMessage(message, upstream.vision);
+      const last = mapped[mapped.length - 1];
+      if (message.role === "user" && thinkingEnabled && last.role === "user") {
+        appendText(last, THINKING_HINT);
+      }
+      messages.push(...mapped);
+      continue;
+    }
+
+    const openaiMessage: OpenAIChatMessage = {
+      role: mapRole(message.role),
+      content: buildContent(message.content, upstream.vision, triggerSignal),
+    };
     
     // 如果是用户消息且思考模式已启用，在消息末尾添加思考提示符
-    if (message.role === "user" && body.thinking && body.thinking.type === "enabled") {
-      content = content + THINKING_HINT;
+    if (message.role === "user" && thinkingEnabled) {
+      appendText(openaiMessage, THINKING_HINT);
     }
     
-    messages.push({
-      role: mapRole(message.role),
-      content: content,
-    });
+    messages.push(openaiMessage);
   }
 
   // 在最后一条消息的后面添加特定内容
   if (messages.length > 0) {
     const lastMessage = messages[messages.length - 1];
-    lastMessage.content = lastMessage.content + "\n\n<antml\\b:role>\n\nPlease continue responding as an assistant.\n\n</antml>";
+    appendText(lastMessage, "\n\n<antml\\b:role>\n\nPlease continue responding as an assistant.\n\n</antml>");
   }
 
-  const model = config.upstreamModelOverride ?? body.model;
+  const model = upstream.model ?? body.model;
 
-  return {
+  const request: OpenAIChatRequest = {
     model,
     stream: true,
     temperature: body.temperature ?? 0.2,
@@ -105,4 +257,17 @@ export function mapClaudeToOpenAI(body: ClaudeRequest, config: ProxyConfig, trig
     max_tokens: body.max_tokens,
     messages,
   };
+  // 提示词注入模式下停止序列可能截断工具调用的 XML，此时只在代理侧检查
+  const stopSequences = validStopSequences(body.stop_sequences);
+  if (upstream.stopSequences && !triggerSignal && stopSequences.length) {
+    request.stop = stopSequences.slice(0, MAX_UPSTREAM_STOP_SEQUENCES);
+  }
+  if (upstream.nativeTools && body.tools?.length) {
+    request.tools = mapTools(body.tools);
+    request.tool_choice = mapToolChoiceToOpenAI(body.tool_choice);
+    if (!allowsParallelToolCalls(true, body.tool_choice)) {
+      request.parallel_tool_calls = false;
+    }
+  }
+  return request;
 }
@@ -0,0 +1,109 @@
+import { log } from "./logging.ts";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  lastError?: string;
+}
+
+/**
+ * 单个上游的熔断器：
+ * - closed：正常放行，连续失败达到阈值后进入 open；
+ * - open：直接跳过该上游，冷却时间过后进入 half_open；
+ * - half_open：只放行一个探测请求，成功则恢复 closed，失败则重新 open。
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+  private lastError?: string;
+
+  constructor(
+    private readonly name: string,
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number,
+  ) {}
+
+  // 是否允许向该上游发送请求；half_open 状态下只放行一个探测请求
+  allowRequest(now = Date.now()): boolean {
+    if (this.failureThreshold <= 0) return true;
+    if (this.state === "open") {
+      if (now - this.openedAt < this.cooldownMs) return false;
+      this.transition("half_open");
+    }
+    if (this.state === "half_open") {
+      if (this.probeInFlight) return false;
+      this.probeInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess() {
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+    this.lastError = undefined;
+    if (this.state !== "closed") this.transition("closed");
+  }
+
+  recordFailure(error: string, now = Date.now()) {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+    this.lastError = error;
+    if (this.failureThreshold <= 0) return;
+    if (this.state === "half_open" || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = now;
+      if (this.state !== "open") this.transition("open");
+    }
+  }
+
+  // 探测请求没有得出结果（客户端取消、请求未能发出）时归还名额，下一个请求可以重新探测
+  releaseProbe() {
+    this.probeInFlight = false;
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state === "closed" ? undefined : new Date(this.openedAt).toISOString(),
+      lastError: this.lastError,
+    };
+  }
+
+  private transition(next: CircuitState) {
+    log(next === "open" ? "warn" : "info", "Upstream circuit breaker state changed", {
+      upstream: this.name,
+      from: this.state,
+      to: next,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+    });
+    this.state = next;
+  }
+}
+
+// 按上游名称管理熔断器，首次使用时创建
+export class UpstreamHealth {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private readonly failureThreshold: number, private readonly cooldownMs: number) {}
+
+  breaker(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(name, this.failureThreshold, this.cooldownMs);
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  snapshot(names: string[]): CircuitSnapshot[] {
+    return names.map((name) => this.breaker(name).snapshot());
+  }
+}
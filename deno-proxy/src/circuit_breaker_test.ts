@@ -0,0 +1,32 @@
+import { CircuitBreaker } from "./circuit_breaker.ts";
+
+Deno.test("CircuitBreaker opens after consecutive failures and probes after the cooldown", () => {
+  const breaker = new CircuitBreaker("test", 2, 1000);
+  breaker.recordFailure("HTTP 502", 0);
+  if (!breaker.allowRequest(10)) throw new Error("Should stay closed below the threshold");
+  breaker.recordFailure("HTTP 502", 20);
+  if (breaker.snapshot().state !== "open" || breaker.allowRequest(500)) {
+    throw new Error(`Should be open during the cooldown: ${JSON.stringify(breaker.snapshot())}`);
+  }
+  if (!breaker.allowRequest(1100)) throw new Error("Should allow one probe after the cooldown");
+  if (breaker.allowRequest(1100)) throw new Error("Should allow only a single half-open probe");
+  breaker.recordFailure("timeout", 1200);
+  if (breaker.snapshot().state !== "open") throw new Error("Failed probe should reopen the breaker");
+  if (!breaker.allowRequest(2300)) throw new Error("Should probe again after another cooldown");
+  breaker.recordSuccess();
+  const snapshot = breaker.snapshot();
+  if (snapshot.state !== "closed" || snapshot.consecutiveFailures !== 0) {
+    throw new Error(`Successful probe should close the breaker: ${JSON.stringify(snapshot)}`);
+  }
+});
+
+Deno.test("CircuitBreaker lets the next request probe when a probe is abandoned", () => {
+  const breaker = new CircuitBreaker("test", 1, 1000);
+  breaker.recordFailure("HTTP 502", 0);
+  if (!breaker.allowRequest(1100)) throw new Error("Should allow one probe after the cooldown");
+  // 客户端在探测请求得到响应前取消
+  breaker.releaseProbe();
+  if (breaker.snapshot().state !== "half_open") throw new Error("An abandoned probe should not change the state");
+  if (!breaker.allowRequest(1200)) throw new Error("Should allow a new probe after the previous one was released");
+  if (breaker.allowRequest(1200)) throw new Error("Should still allow only a single half-open probe");
+});
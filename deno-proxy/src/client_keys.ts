@@ -0,0 +1,211 @@
+import { ClientKeyConfig, ProxyConfig } from "./config.ts";
+
+const encoder = new TextEncoder();
+const MINUTE_MS = 60_000;
+
+// 计算客户端密钥的 SHA-256（十六进制），配置中的 keyHash 即为这个值
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(key));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// 从 x-api-key 或 Authorization: Bearer 头中取出客户端密钥
+export function extractApiKey(req: Request): string | undefined {
+  const header = req.headers.get("x-api-key") || req.headers.get("authorization");
+  if (!header) return undefined;
+  return header.startsWith("Bearer ") ? header.slice(7) : header;
+}
+
+export type AuthResult =
+  | { client: ClientKeyConfig }
+  | { error: "missing" | "invalid" }
+  | { error: "disabled"; client: ClientKeyConfig };
+
+export interface QuotaRejection {
+  reason: "requests_per_minute" | "concurrency" | "daily_tokens" | "monthly_tokens";
+  message: string;
+  retryAfterSeconds: number;
+}
+
+// 一次已放行的请求；结束时调用 release 归还并发名额，并把消耗的 token 计入配额（重复调用无效）
+export interface ClientLease {
+  release(tokens?: number, now?: number): void;
+}
+
+interface ClientUsageState {
+  requestTimestamps: number[];
+  activeRequests: number;
+  day: string;
+  dayTokens: number;
+  month: string;
+  monthTokens: number;
+}
+
+// 没有配置任何密钥时所有请求都视为同一个不受限制的匿名客户端；CLIENT_API_KEY 对应名为 default 的客户端
+function unlimitedClient(label: string): ClientKeyConfig {
+  return {
+    label,
+    keyHash: "",
+    enabled: true,
+    admin: true,
+    requestsPerMinute: 0,
+    maxConcurrentRequests: 0,
+    dailyTokenQuota: 0,
+    monthlyTokenQuota: 0,
+  };
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function utcMonth(now: number): string {
+  return new Date(now).toISOString().slice(0, 7);
+}
+
+function secondsUntil(target: number, now: number): number {
+  return Math.max(1, Math.ceil((target - now) / 1000));
+}
+
+function nextUtcDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+function nextUtcMonth(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+/**
+ * 客户端密钥表以及每个客户端的请求频率、并发与 token 用量。
+ * 用量按 label 保存在内存中，配置热加载（configure）时保留；启动时可以通过 addUsage 从用量账本恢复。
+ */
+export class ClientRegistry {
+  private keysByHash = new Map<string, ClientKeyConfig>();
+  private legacyKey?: string;
+  private usage = new Map<string, ClientUsageState>();
+
+  constructor(config: ProxyConfig) {
+    this.configure(config);
+  }
+
+  configure(config: ProxyConfig) {
+    this.keysByHash = new Map(config.clientKeys.map((key) => [key.keyHash, key]));
+    this.legacyKey = config.clientApiKey;
+  }
+
+  async authenticate(apiKey: string | undefined): Promise<AuthResult> {
+    if (!this.legacyKey && !this.keysByHash.size) return { client: unlimitedClient("anonymous") };
+    if (!apiKey) return { error: "missing" };
+    if (this.legacyKey && apiKey === this.legacyKey) return { client: unlimitedClient("default") };
+    const client = this.keysByHash.get(await hashApiKey(apiKey));
+    if (!client) return { error: "invalid" };
+    if (!client.enabled) return { error: "disabled", client };
+    return { client };
+  }
+
+  /**
+   * 检查客户端的各项限制，通过时占用一个并发名额并记录本次请求。
+   * token 配额在请求结束后才计入，所以最后一个请求可能略微超出配额。
+   */
+  admit(client: ClientKeyConfig, now = Date.now()): { lease: ClientLease } | { rejection: QuotaRejection } {
+    const state = this.state(client.label, now);
+    state.requestTimestamps = state.requestTimestamps.filter((ts) => now - ts < MINUTE_MS);
+
+    if (client.requestsPerMinute > 0 && state.requestTimestamps.length >= client.requestsPerMinute) {
+      return {
+        rejection: {
+          reason: "requests_per_minute",
+          message: `Client "${client.label}" exceeded ${client.requestsPerMinute} requests per minute`,
+          retryAfterSeconds: secondsUntil(state.requestTimestamps[0] + MINUTE_MS, now),
+        },
+      };
+    }
+    if (client.maxConcurrentRequests > 0 && state.activeRequests >= client.maxConcurrentRequests) {
+      return {
+        rejection: {
+          reason: "concurrency",
+          message: `Client "${client.label}" already has ${state.activeRequests} requests in flight`,
+          retryAfterSeconds: 1,
+        },
+      };
+    }
+    if (client.dailyTokenQuota > 0 && state.dayTokens >= client.dailyTokenQuota) {
+      return {
+        rejection: {
+          reason: "daily_tokens",
+          message: `Client "${client.label}" used its daily quota of ${client.dailyTokenQuota} tokens`,
+          retryAfterSeconds: secondsUntil(nextUtcDay(now), now),
+        },
+      };
+    }
+    if (client.monthlyTokenQuota > 0 && state.monthTokens >= client.monthlyTokenQuota) {
+      return {
+        rejection: {
+          reason: "monthly_tokens",
+          message: `Client "${client.label}" used its monthly quota of ${client.monthlyTokenQuota} tokens`,
+          retryAfterSeconds: secondsUntil(nextUtcMonth(now), now),
+        },
+      };
+    }
+
+    state.requestTimestamps.push(now);
+    state.activeRequests++;
+    let released = false;
+    return {
+      lease: {
+        release: (tokens = 0, releasedAt = Date.now()) => {
+          if (released) return;
+          released = true;
+          const current = this.state(client.label, releasedAt);
+          current.activeRequests = Math.max(0, current.activeRequests - 1);
+          current.dayTokens += tokens;
+          current.monthTokens += tokens;
+        },
+      },
+    };
+  }
+
+  // 补记发生在 at 时刻的 token 用量（例如启动时从用量账本恢复本月用量），不属于当前日 / 月的部分忽略
+  addUsage(label: string, tokens: number, at: number, now = Date.now()) {
+    const state = this.state(label, now);
+    if (utcDay(at) === state.day) state.dayTokens += tokens;
+    if (utcMonth(at) === state.month) state.monthTokens += tokens;
+  }
+
+  // 取出客户端的用量状态，跨过 UTC 日 / 月边界时清零对应的 token 统计
+  private state(label: string, now: number): ClientUsageState {
+    let state = this.usage.get(label);
+    if (!state) {
+      state = {
+        requestTimestamps: [],
+        activeRequests: 0,
+        day: utcDay(now),
+        dayTokens: 0,
+        month: utcMonth(now),
+        monthTokens: 0,
+      };
+      this.usage.set(label, state);
+    }
+    if (state.day !== utcDay(now)) {
+      state.day = utcDay(now);
+      state.dayTokens = 0;
+    }
+    if (state.month !== utcMonth(now)) {
+      state.month = utcMonth(now);
+      state.monthTokens = 0;
+    }
+    return state;
+  }
+}
+
+// deno task hash-key <密钥>：输出配置 keyHash 所需的摘要
+if (import.meta.main) {
+  const [key] = Deno.args;
+  if (!key) {
+    console.error("Usage: deno task hash-key <client-api-key>");
+    Deno.exit(1);
+  }
+  console.log(await hashApiKey(key));
+}
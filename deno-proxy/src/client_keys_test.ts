@@ -0,0 +1,60 @@
+import { ClientRegistry, hashApiKey } from "./client_keys.ts";
+import { buildConfig, ClientKeyConfig } from "./config.ts";
+
+async function registryWith(keys: Record<string, Partial<ClientKeyConfig>>) {
+  const clientKeys = [];
+  for (const [key, limits] of Object.entries(keys)) {
+    clientKeys.push({ label: key, keyHash: await hashApiKey(key), ...limits });
+  }
+  return new ClientRegistry(buildConfig({ clientKeys }, {}));
+}
+
+Deno.test("ClientRegistry authenticates hashed keys and rejects disabled ones", async () => {
+  const registry = await registryWith({ alice: {}, bob: { enabled: false } });
+  const results = [
+    await registry.authenticate("alice"),
+    await registry.authenticate("bob"),
+    await registry.authenticate("mallory"),
+    await registry.authenticate(undefined),
+  ].map((result) => "error" in result ? result.error : result.client.label);
+  if (JSON.stringify(results) !== JSON.stringify(["alice", "disabled", "invalid", "missing"])) {
+    throw new Error(`Unexpected auth results: ${JSON.stringify(results)}`);
+  }
+});
+
+Deno.test("ClientRegistry enforces per-key rate, concurrency and token quotas", async () => {
+  const registry = await registryWith({
+    alice: { requestsPerMinute: 2, maxConcurrentRequests: 1, dailyTokenQuota: 100 },
+  });
+  const auth = await registry.authenticate("alice");
+  if ("error" in auth) throw new Error("alice should authenticate");
+  const now = Date.parse("2025-01-01T23:59:00Z");
+
+  const first = registry.admit(auth.client, now);
+  if (!("lease" in first)) throw new Error("First request should be admitted");
+  const concurrent = registry.admit(auth.client, now);
+  if (!("rejection" in concurrent) || concurrent.rejection.reason !== "concurrency") {
+    throw new Error(`Expected concurrency rejection, got ${JSON.stringify(concurrent)}`);
+  }
+  first.lease.release(150, now);
+
+  const overQuota = registry.admit(auth.client, now + 1000);
+  if (!("rejection" in overQuota) || overQuota.rejection.reason !== "daily_tokens") {
+    throw new Error(`Expected daily quota rejection, got ${JSON.stringify(overQuota)}`);
+  }
+  if (overQuota.rejection.retryAfterSeconds !== 59) {
+    throw new Error(`Quota should reset at UTC midnight, got ${overQuota.rejection.retryAfterSeconds}s`);
+  }
+
+  // 跨过 UTC 零点后日配额清零，但每分钟请求数仍然按滑动窗口计算
+  const nextDay = registry.admit(auth.client, now + 61_000);
+  if (!("lease" in nextDay)) throw new Error("Quota should reset on the next UTC day");
+  nextDay.lease.release(10, now + 61_000);
+  const third = registry.admit(auth.client, now + 62_000);
+  if (!("lease" in third)) throw new Error("Third request should be admitted");
+  third.lease.release(10, now + 62_000);
+  const limited = registry.admit(auth.client, now + 63_000);
+  if (!("rejection" in limited) || limited.rejection.reason !== "requests_per_minute") {
+    throw new Error(`Expected requests-per-minute rejection, got ${JSON.stringify(limited)}`);
+  }
+});
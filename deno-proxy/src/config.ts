@@ -1,15 +1,104 @@
+import { parse as parseJsonc } from "@std/jsonc";
+import { basename, dirname, resolve } from "@std/path";
+import { InvalidToolCallPolicy } from "./types.ts";
+import {
+  DEFAULT_LOGGING_OPTIONS,
+  log,
+  LOG_FORMATS,
+  LOG_SINK_NAMES,
+  LogFormat,
+  LoggingOptions,
+  LogSinkName,
+} from "./logging.ts";
+
+// 一个命名的上游（OpenAI 兼容的 chat/completions 接口）及其能力开关
+export interface UpstreamConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  // 强制覆盖请求中的模型名称
+  model?: string;
+  timeoutMs: number;
+  // 上游原生支持 OpenAI tools/tool_calls 时直接透传，不再走提示词注入 + XML 解析
+  nativeTools: boolean;
+  // 上游支持图像输入时，image 块会转换为 OpenAI image_url 片段，否则替换为文字占位
+  vision: boolean;
+  // 是否把 stop_sequences 透传给上游（上游命中时无法得知命中的是哪个序列）；无论是否透传，代理侧都会检查
+  stopSequences: boolean;
+  // 该上游失败时按顺序尝试的备用上游名称
+  fallbacks: string[];
+}
+
+// 上游请求的重试策略（只在开始向客户端输出之前生效）
+export interface UpstreamRetryPolicy {
+  // 包括首次请求在内的最大尝试次数
+  maxAttempts: number;
+  baseDelayMs: number;
+  jitterMs: number;
+  statusCodes: number[];
+}
+
+// 一个客户端密钥：配置中只保存密钥的 SHA-256（十六进制），各项限制为 0 表示不限制
+export interface ClientKeyConfig {
+  label: string;
+  keyHash: string;
+  enabled: boolean;
+  // 可以在 /v1/usage 中查看所有客户端的用量，否则只能看到自己的
+  admin: boolean;
+  requestsPerMinute: number;
+  maxConcurrentRequests: number;
+  // 按 UTC 自然日 / 自然月统计的 token 配额（输入 + 输出）
+  dailyTokenQuota: number;
+  monthlyTokenQuota: number;
+}
+
+// 模型路由：pattern 为完整的模型名，或包含 * / ? 通配符的 glob
+export interface ModelRoute {
+  pattern: string;
+  upstream: string;
+}
+
 export interface ProxyConfig {
   port: number;
   host: string;
-  upstreamBaseUrl: string;
-  upstreamApiKey?: string;
-  upstreamModelOverride?: string;
+  // 第一个为默认上游（可由 UPSTREAM_* 环境变量覆盖），其余来自配置文件或 UPSTREAMS
+  upstreams: UpstreamConfig[];
+  routes: ModelRoute[];
   clientApiKey?: string;
-  requestTimeoutMs: number;
+  // 按客户端区分的密钥；与 clientApiKey 可以同时使用
+  clientKeys: ClientKeyConfig[];
+  upstreamRetry: UpstreamRetryPolicy;
+  // 这些状态码（以及连接错误、超时）会切换到备用上游
+  failoverStatusCodes: number[];
+  // 连续失败多少次后熔断该上游（0 表示不熔断），以及熔断后多久放行一个探测请求
+  circuitBreakerThreshold: number;
+  circuitBreakerCooldownMs: number;
   aggregationIntervalMs: number;
+  // 用量账本（NDJSON，每个请求一行）的路径
+  usageLedgerFile: string;
+  // 日志格式、输出目的地与轮转策略；LOG_LEVEL 与 LOGGING_DISABLED 仍由 logging.ts 直接读取
+  logging: LoggingOptions;
+  // 流式响应中超过这么久没有写出任何事件时发送 ping（0 表示不发送）
+  pingIntervalMs: number;
+  // 上游响应头返回后等待第一个 token、以及相邻两次上游数据之间的最长时间（0 表示不限制）
+  firstTokenTimeoutMs: number;
+  idleTimeoutMs: number;
   maxRequestsPerMinute: number;
+  // 全局的每分钟输入 / 输出 token 额度与同时进行的流数量上限（0 表示不限制）
+  maxInputTokensPerMinute: number;
+  maxOutputTokensPerMinute: number;
+  maxConcurrentStreams: number;
+  // 等待上述限额时最多排队的请求数与最长等待时间（0 表示不限制），超出时立即返回 429
+  rateLimitMaxQueue: number;
+  rateLimitMaxWaitMs: number;
   tokenMultiplier: number;
   autoPort: boolean;
+  // 是否允许模型在一次响应中发起多个并行工具调用；较弱的上游模型建议保持单次调用模式
+  parallelToolCalls: boolean;
+  // 强制工具调用（tool_choice=any/tool）未出现等情况下，最多重新提示上游的次数
+  maxToolRepairAttempts: number;
+  // 提示词注入模式下，工具参数不符合 input_schema 时的处理策略
+  invalidToolCallPolicy: InvalidToolCallPolicy;
 }
 
 // 解析 TOKEN_MULTIPLIER，兼容常见字符串形式：
@@ -17,11 +106,9 @@ export interface ProxyConfig {
 // - "1.2x" / "x1.2"
 // - "120%" （表示 1.2）
 // - 带引号或空格的写法："'1.2'" / " 1.2 "
-function parseTokenMultiplier(raw: string | undefined): number {
-  if (!raw) return 1.0;
-
+// 无法识别或不是正数时返回 undefined，由调用方报告配置错误
+function parseTokenMultiplier(raw: string): number | undefined {
   let s = raw.trim();
-  if (!s) return 1.0;
 
   // 去掉包裹的引号
   if ((s.startsWith("\"") && s.endsWith("\"")) || (s.startsWith("'") && s.endsWith("'"))) {
@@ -30,10 +117,8 @@ function parseTokenMultiplier(raw: string | undefined): number {
 
   // 支持百分号写法：120% -> 1.2
   if (s.endsWith("%")) {
-    const num = parseFloat(s.slice(0, -1));
-    if (Number.isFinite(num) && num > 0) {
-      return num / 100;
-    }
+    const num = Number(s.slice(0, -1).trim());
+    return Number.isFinite(num) && num > 0 ? num / 100 : undefined;
   }
 
   // 支持带 x 的写法：1.2x / x1.2
@@ -43,46 +128,638 @@ function parseTokenMultiplier(raw: string | undefined): number {
     s = s.slice(1).trim();
   }
 
-  const num = parseFloat(s);
-  if (!Number.isFinite(num) || num <= 0) {
+  const num = s ? Number(s) : NaN;
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+}
+
+export const DEFAULT_UPSTREAM_NAME = "default";
+const DEFAULT_UPSTREAM_URL = "http://127.0.0.1:8000/v1/chat/completions";
+const TRANSIENT_STATUS_CODES = [429, 500, 502, 503, 504];
+const INVALID_TOOL_CALL_POLICIES: InvalidToolCallPolicy[] = ["passthrough", "drop", "report"];
+
+// 配置文件允许的顶层字段（与 ProxyConfig 对应，timeoutMs 为各上游的默认超时）
+const FILE_KEYS = new Set([
+  "$schema",
+  "port",
+  "host",
+  "autoPort",
+  "clientApiKey",
+  "clientKeys",
+  "timeoutMs",
+  "upstreams",
+  "routes",
+  "upstreamRetry",
+  "failoverStatusCodes",
+  "circuitBreakerThreshold",
+  "circuitBreakerCooldownMs",
+  "aggregationIntervalMs",
+  "usageLedgerFile",
+  "logging",
+  "pingIntervalMs",
+  "firstTokenTimeoutMs",
+  "idleTimeoutMs",
+  "maxRequestsPerMinute",
+  "maxInputTokensPerMinute",
+  "maxOutputTokensPerMinute",
+  "maxConcurrentStreams",
+  "rateLimitMaxQueue",
+  "rateLimitMaxWaitMs",
+  "tokenMultiplier",
+  "parallelToolCalls",
+  "maxToolRepairAttempts",
+  "invalidToolCallPolicy",
+]);
+const UPSTREAM_KEYS = new Set([
+  "name",
+  "baseUrl",
+  "apiKey",
+  "model",
+  "timeoutMs",
+  "nativeTools",
+  "vision",
+  "stopSequences",
+  "fallbacks",
+]);
+const RETRY_KEYS = new Set(["maxAttempts", "baseDelayMs", "jitterMs", "statusCodes"]);
+const LOGGING_KEYS = new Set([
+  "format",
+  "sinks",
+  "requestSinks",
+  "file",
+  "fileMaxBytes",
+  "fileMaxFiles",
+  "requestDir",
+  "requestDirMaxBytes",
+  "maxAgeMs",
+]);
+const CLIENT_KEY_KEYS = new Set([
+  "label",
+  "keyHash",
+  "enabled",
+  "admin",
+  "requestsPerMinute",
+  "maxConcurrentRequests",
+  "dailyTokenQuota",
+  "monthlyTokenQuota",
+]);
+
+type JsonObject = Record<string, unknown>;
+
+interface NumberRule {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * 配置来源：环境变量优先于配置文件，二者都没有时使用默认值。
+ * 所有问题收集到 issues 中，最后一次性报告，而不是悄悄回退到默认值。
+ */
+interface ConfigSource {
+  env: Record<string, string | undefined>;
+  file: JsonObject;
+  issues: string[];
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeRule(rule: NumberRule): string {
+  let text = rule.integer ? "an integer" : "a number";
+  if (rule.min !== undefined && rule.max !== undefined) {
+    text += ` between ${rule.min} and ${rule.max}`;
+  } else if (rule.min !== undefined) {
+    text += ` >= ${rule.min}`;
+  }
+  return text;
+}
+
+function matchesRule(value: number, rule: NumberRule): boolean {
+  return Number.isFinite(value) &&
+    (!rule.integer || Number.isInteger(value)) &&
+    (rule.min === undefined || value >= rule.min) &&
+    (rule.max === undefined || value <= rule.max);
+}
+
+function checkUnknownKeys(value: JsonObject, allowed: Set<string>, label: string, issues: string[]) {
+  for (const key of Object.keys(value)) {
+    if (!allowed.has(key)) issues.push(`${label}: unknown field "${key}"`);
+  }
+}
+
+// ---- JSON 值（配置文件、UPSTREAMS、MODEL_ROUTES）----
+
+function jsonNumber(value: unknown, label: string, rule: NumberRule, issues: string[]): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !matchesRule(value, rule)) {
+    issues.push(`${label} must be ${describeRule(rule)}, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  return value;
+}
+
+function jsonBoolean(value: unknown, label: string, issues: string[]): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "boolean") {
+    issues.push(`${label} must be true or false, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  return value;
+}
+
+function jsonString(value: unknown, label: string, issues: string[]): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !value) {
+    issues.push(`${label} must be a non-empty string, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  return value;
+}
+
+function jsonStringList(value: unknown, label: string, issues: string[]): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    issues.push(`${label} must be an array of strings`);
+    return undefined;
+  }
+  return value;
+}
+
+function jsonStatusCodes(value: unknown, label: string, issues: string[]): number[] | undefined {
+  if (value === undefined) return undefined;
+  const rule = { integer: true, min: 100, max: 599 };
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "number" || !matchesRule(item, rule))) {
+    issues.push(`${label} must be an array of HTTP status codes`);
+    return undefined;
+  }
+  return value;
+}
+
+// ---- 环境变量 ----
+
+function envRaw(source: ConfigSource, name: string): string | undefined {
+  const raw = source.env[name];
+  return raw === undefined || raw.trim() === "" ? undefined : raw.trim();
+}
+
+function envNumber(source: ConfigSource, name: string, rule: NumberRule): number | undefined {
+  const raw = envRaw(source, name);
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!matchesRule(value, rule)) {
+    source.issues.push(`${name} must be ${describeRule(rule)}, got "${raw}"`);
+    return undefined;
+  }
+  return value;
+}
+
+function envBoolean(source: ConfigSource, name: string): boolean | undefined {
+  const raw = envRaw(source, name)?.toLowerCase();
+  if (raw === undefined) return undefined;
+  if (raw === "true" || raw === "1") return true;
+  if (raw === "false" || raw === "0") return false;
+  source.issues.push(`${name} must be true or false, got "${raw}"`);
+  return undefined;
+}
+
+function envStatusCodes(source: ConfigSource, name: string): number[] | undefined {
+  const raw = envRaw(source, name);
+  if (raw === undefined) return undefined;
+  const codes = raw.split(",").map((item) => item.trim()).filter(Boolean).map(Number);
+  const rule = { integer: true, min: 100, max: 599 };
+  if (codes.some((code) => !matchesRule(code, rule))) {
+    source.issues.push(`${name} must be a comma-separated list of HTTP status codes, got "${raw}"`);
+    return undefined;
+  }
+  return codes;
+}
+
+function envJson(source: ConfigSource, name: string): unknown {
+  const raw = envRaw(source, name);
+  if (raw === undefined) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    source.issues.push(`${name} is not valid JSON: ${error}`);
+    return undefined;
+  }
+}
+
+// ---- 组合读取：环境变量 > 配置文件 > 默认值 ----
+
+function fileLabel(key: string): string {
+  return `config file: ${key}`;
+}
+
+function readNumber(source: ConfigSource, key: string, envName: string, fallback: number, rule: NumberRule): number {
+  return envNumber(source, envName, rule) ??
+    jsonNumber(source.file[key], fileLabel(key), rule, source.issues) ??
+    fallback;
+}
+
+function readBoolean(source: ConfigSource, key: string, envName: string, fallback: boolean): boolean {
+  return envBoolean(source, envName) ?? jsonBoolean(source.file[key], fileLabel(key), source.issues) ?? fallback;
+}
+
+function readString(source: ConfigSource, key: string, envName: string): string | undefined {
+  return envRaw(source, envName) ?? jsonString(source.file[key], fileLabel(key), source.issues);
+}
+
+function readTokenMultiplier(source: ConfigSource): number {
+  const raw = envRaw(source, "TOKEN_MULTIPLIER");
+  if (raw !== undefined) {
+    const parsed = parseTokenMultiplier(raw);
+    if (parsed !== undefined) return parsed;
+    source.issues.push(`TOKEN_MULTIPLIER must be a positive number such as 1.2, 1.2x or 120%, got "${raw}"`);
     return 1.0;
   }
-  return num;
+  const value = source.file.tokenMultiplier;
+  if (value === undefined) return 1.0;
+  if (typeof value === "number" && value > 0 && Number.isFinite(value)) return value;
+  const parsed = typeof value === "string" ? parseTokenMultiplier(value) : undefined;
+  if (parsed !== undefined) return parsed;
+  source.issues.push(`${fileLabel("tokenMultiplier")} must be a positive number, got ${JSON.stringify(value)}`);
+  return 1.0;
 }
 
-export function loadConfig(): ProxyConfig {
-  const upstreamBaseUrl = Deno.env.get("UPSTREAM_BASE_URL") ?? "http://127.0.0.1:8000/v1/chat/completions";
-  if (!upstreamBaseUrl) {
-    throw new Error("UPSTREAM_BASE_URL must be provided");
-  }
-
-  // 检查是否启用自动端口配置
-  const autoPort = Deno.env.get("AUTO_PORT") === "true";
-  
-  // 如果启用自动端口，则使用 0 让系统自动分配端口
-  // 否则使用环境变量指定的端口或默认端口 3456
-  const port = autoPort ? 0 : Number(Deno.env.get("PORT") ?? "3456");
-  const host = Deno.env.get("HOST") ?? "0.0.0.0";
-  const upstreamApiKey = Deno.env.get("UPSTREAM_API_KEY");
-  const upstreamModelOverride = Deno.env.get("UPSTREAM_MODEL");
-  const clientApiKey = Deno.env.get("CLIENT_API_KEY");
-  const requestTimeoutMs = Number(Deno.env.get("TIMEOUT_MS") ?? "120000");
-  const aggregationIntervalMs = Number(Deno.env.get("AGGREGATION_INTERVAL_MS") ?? "35");
-  const maxRequestsPerMinute = Number(Deno.env.get("MAX_REQUESTS_PER_MINUTE") ?? "10");
-  // 解析 tokenMultiplier，并对非法值进行兜底，避免出现 NaN/Infinity
-  const tokenMultiplier = parseTokenMultiplier(Deno.env.get("TOKEN_MULTIPLIER"));
+function readInvalidToolCallPolicy(source: ConfigSource): InvalidToolCallPolicy {
+  const raw = envRaw(source, "INVALID_TOOL_CALL_POLICY")?.toLowerCase() ??
+    jsonString(source.file.invalidToolCallPolicy, fileLabel("invalidToolCallPolicy"), source.issues);
+  if (raw === undefined) return "passthrough";
+  if ((INVALID_TOOL_CALL_POLICIES as string[]).includes(raw)) return raw as InvalidToolCallPolicy;
+  source.issues.push(`invalidToolCallPolicy must be one of ${INVALID_TOOL_CALL_POLICIES.join(", ")}, got "${raw}"`);
+  return "passthrough";
+}
+
+function readRetryPolicy(source: ConfigSource): UpstreamRetryPolicy {
+  const file = source.file.upstreamRetry;
+  let retry: JsonObject = {};
+  if (isObject(file)) {
+    checkUnknownKeys(file, RETRY_KEYS, fileLabel("upstreamRetry"), source.issues);
+    retry = file;
+  } else if (file !== undefined) {
+    source.issues.push(`${fileLabel("upstreamRetry")} must be an object`);
+  }
+  const read = (key: string, envName: string, fallback: number, rule: NumberRule) =>
+    envNumber(source, envName, rule) ??
+      jsonNumber(retry[key], fileLabel(`upstreamRetry.${key}`), rule, source.issues) ??
+      fallback;
+  return {
+    maxAttempts: read("maxAttempts", "UPSTREAM_MAX_ATTEMPTS", 3, { integer: true, min: 1 }),
+    baseDelayMs: read("baseDelayMs", "UPSTREAM_RETRY_BASE_DELAY_MS", 500, { min: 0 }),
+    jitterMs: read("jitterMs", "UPSTREAM_RETRY_JITTER_MS", 250, { min: 0 }),
+    statusCodes: envStatusCodes(source, "UPSTREAM_RETRY_STATUS_CODES") ??
+      jsonStatusCodes(retry.statusCodes, fileLabel("upstreamRetry.statusCodes"), source.issues) ??
+      TRANSIENT_STATUS_CODES,
+  };
+}
+
+function readLogging(source: ConfigSource): LoggingOptions {
+  const file = source.file.logging;
+  let logging: JsonObject = {};
+  if (isObject(file)) {
+    checkUnknownKeys(file, LOGGING_KEYS, fileLabel("logging"), source.issues);
+    logging = file;
+  } else if (file !== undefined) {
+    source.issues.push(`${fileLabel("logging")} must be an object`);
+  }
+  const defaults = DEFAULT_LOGGING_OPTIONS;
+  const read = (key: keyof LoggingOptions, envName: string, rule: NumberRule) =>
+    envNumber(source, envName, rule) ??
+      jsonNumber(logging[key], fileLabel(`logging.${key}`), rule, source.issues) ??
+      defaults[key] as number;
+  const readText = (key: keyof LoggingOptions, envName: string) =>
+    envRaw(source, envName) ?? jsonString(logging[key], fileLabel(`logging.${key}`), source.issues);
+  // 环境变量为逗号分隔的列表，配置文件中为字符串数组
+  const readSinks = (key: "sinks" | "requestSinks", envName: string): LogSinkName[] => {
+    const fromEnv = envRaw(source, envName)?.split(",").map((item) => item.trim()).filter(Boolean);
+    const names = fromEnv ?? jsonStringList(logging[key], fileLabel(`logging.${key}`), source.issues);
+    if (names === undefined) return defaults[key];
+    const unknown = names.filter((name) => !(LOG_SINK_NAMES as string[]).includes(name));
+    if (unknown.length) {
+      source.issues.push(`logging.${key} must only contain ${LOG_SINK_NAMES.join(", ")}, got "${unknown.join(", ")}"`);
+      return defaults[key];
+    }
+    return names as LogSinkName[];
+  };
+
+  let format = defaults.format;
+  const rawFormat = readText("format", "LOG_FORMAT")?.toLowerCase();
+  if (rawFormat !== undefined) {
+    if ((LOG_FORMATS as string[]).includes(rawFormat)) format = rawFormat as LogFormat;
+    else source.issues.push(`logging.format must be one of ${LOG_FORMATS.join(", ")}, got "${rawFormat}"`);
+  }
+  return {
+    format,
+    sinks: readSinks("sinks", "LOG_SINKS"),
+    requestSinks: readSinks("requestSinks", "LOG_REQUEST_SINKS"),
+    file: readText("file", "LOG_FILE") ?? defaults.file,
+    fileMaxBytes: read("fileMaxBytes", "LOG_FILE_MAX_BYTES", { integer: true, min: 0 }),
+    fileMaxFiles: read("fileMaxFiles", "LOG_FILE_MAX_FILES", { integer: true, min: 0 }),
+    requestDir: readText("requestDir", "LOG_REQUEST_DIR") ?? defaults.requestDir,
+    requestDirMaxBytes: read("requestDirMaxBytes", "LOG_REQUEST_DIR_MAX_BYTES", { integer: true, min: 0 }),
+    maxAgeMs: read("maxAgeMs", "LOG_MAX_AGE_MS", { min: 0 }),
+  };
+}
+
+// 解析一个上游定义（来自配置文件的 upstreams 或 UPSTREAMS 环境变量），timeoutMs 缺省时使用默认超时
+function parseUpstream(value: unknown, label: string, defaultTimeoutMs: number, issues: string[]): UpstreamConfig | undefined {
+  if (!isObject(value)) {
+    issues.push(`${label} must be an object`);
+    return undefined;
+  }
+  checkUnknownKeys(value, UPSTREAM_KEYS, label, issues);
+  const name = jsonString(value.name, `${label}.name`, issues);
+  const baseUrl = jsonString(value.baseUrl, `${label}.baseUrl`, issues);
+  if (!name) issues.push(`${label}.name is required`);
+  if (!baseUrl) issues.push(`${label}.baseUrl is required`);
+  if (!name || !baseUrl) return undefined;
+  return {
+    name,
+    baseUrl,
+    apiKey: jsonString(value.apiKey, `${label}.apiKey`, issues),
+    model: jsonString(value.model, `${label}.model`, issues),
+    timeoutMs: jsonNumber(value.timeoutMs, `${label}.timeoutMs`, { min: 1 }, issues) ?? defaultTimeoutMs,
+    nativeTools: jsonBoolean(value.nativeTools, `${label}.nativeTools`, issues) ?? false,
+    vision: jsonBoolean(value.vision, `${label}.vision`, issues) ?? false,
+    stopSequences: jsonBoolean(value.stopSequences, `${label}.stopSequences`, issues) ?? false,
+    fallbacks: jsonStringList(value.fallbacks, `${label}.fallbacks`, issues) ?? [],
+  };
+}
+
+function parseUpstreamList(value: unknown, label: string, defaultTimeoutMs: number, issues: string[]): UpstreamConfig[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${label} must be an array`);
+    return [];
+  }
+  return value
+    .map((item, index) => parseUpstream(item, `${label}[${index}]`, defaultTimeoutMs, issues))
+    .filter((item): item is UpstreamConfig => item !== undefined);
+}
+
+/**
+ * 上游列表：第一个为默认上游。
+ * - 配置文件的 upstreams[0] 作为默认上游，没有时使用 UPSTREAM_BASE_URL 等变量构造名为 default 的上游；
+ * - UPSTREAM_* 环境变量总是覆盖默认上游的对应字段；
+ * - 设置了 UPSTREAMS 时，用它替换配置文件中的其余上游。
+ */
+function readUpstreams(source: ConfigSource, defaultTimeoutMs: number): UpstreamConfig[] {
+  const fileUpstreams = parseUpstreamList(source.file.upstreams, fileLabel("upstreams"), defaultTimeoutMs, source.issues);
+  const base: UpstreamConfig = fileUpstreams[0] ?? {
+    name: DEFAULT_UPSTREAM_NAME,
+    baseUrl: DEFAULT_UPSTREAM_URL,
+    timeoutMs: defaultTimeoutMs,
+    nativeTools: false,
+    vision: false,
+    stopSequences: false,
+    fallbacks: [],
+  };
+  const fallbacks = envRaw(source, "UPSTREAM_FALLBACKS");
+  const defaultUpstream: UpstreamConfig = {
+    ...base,
+    baseUrl: envRaw(source, "UPSTREAM_BASE_URL") ?? base.baseUrl,
+    apiKey: envRaw(source, "UPSTREAM_API_KEY") ?? base.apiKey,
+    model: envRaw(source, "UPSTREAM_MODEL") ?? base.model,
+    // TIMEOUT_MS 已在 defaultTimeoutMs 中校验过，这里只决定是否用它覆盖配置文件中的值
+    timeoutMs: envRaw(source, "TIMEOUT_MS") !== undefined ? defaultTimeoutMs : base.timeoutMs,
+    nativeTools: envBoolean(source, "UPSTREAM_NATIVE_TOOLS") ?? base.nativeTools,
+    vision: envBoolean(source, "UPSTREAM_VISION") ?? base.vision,
+    stopSequences: envBoolean(source, "UPSTREAM_STOP_SEQUENCES") ?? base.stopSequences,
+    fallbacks: fallbacks === undefined
+      ? base.fallbacks
+      : fallbacks.split(",").map((item) => item.trim()).filter(Boolean),
+  };
+
+  const envUpstreams = envJson(source, "UPSTREAMS");
+  const others = envUpstreams === undefined
+    ? fileUpstreams.slice(1)
+    : parseUpstreamList(envUpstreams, "UPSTREAMS", defaultTimeoutMs, source.issues);
+  const upstreams = [defaultUpstream, ...others];
+
+  const names = new Set<string>();
+  for (const upstream of upstreams) {
+    if (names.has(upstream.name)) source.issues.push(`duplicate upstream name "${upstream.name}"`);
+    names.add(upstream.name);
+  }
+  for (const upstream of upstreams) {
+    for (const name of upstream.fallbacks) {
+      if (!names.has(name)) source.issues.push(`upstream "${upstream.name}" has unknown fallback "${name}"`);
+    }
+  }
+  return upstreams;
+}
 
+// 路由表：JSON 对象，键为模型名或 glob，值为上游名称，按书写顺序匹配；MODEL_ROUTES 整体覆盖配置文件
+function readRoutes(source: ConfigSource, upstreams: UpstreamConfig[]): ModelRoute[] {
+  const envRoutes = envJson(source, "MODEL_ROUTES");
+  const label = envRoutes === undefined ? fileLabel("routes") : "MODEL_ROUTES";
+  const value = envRoutes ?? source.file.routes;
+  if (value === undefined) return [];
+  if (!isObject(value)) {
+    source.issues.push(`${label} must be an object mapping model patterns to upstream names`);
+    return [];
+  }
+  const names = new Set(upstreams.map((upstream) => upstream.name));
+  const routes: ModelRoute[] = [];
+  for (const [pattern, upstream] of Object.entries(value)) {
+    if (typeof upstream !== "string" || !names.has(upstream)) {
+      source.issues.push(`${label}["${pattern}"] refers to unknown upstream ${JSON.stringify(upstream)}`);
+      continue;
+    }
+    routes.push({ pattern, upstream });
+  }
+  return routes;
+}
+
+function parseClientKey(value: unknown, label: string, issues: string[]): ClientKeyConfig | undefined {
+  if (!isObject(value)) {
+    issues.push(`${label} must be an object`);
+    return undefined;
+  }
+  checkUnknownKeys(value, CLIENT_KEY_KEYS, label, issues);
+  const name = jsonString(value.label, `${label}.label`, issues);
+  const keyHash = jsonString(value.keyHash, `${label}.keyHash`, issues)?.toLowerCase();
+  if (!name) issues.push(`${label}.label is required`);
+  if (keyHash !== undefined && !/^[0-9a-f]{64}$/.test(keyHash)) {
+    issues.push(`${label}.keyHash must be a hex SHA-256 digest`);
+    return undefined;
+  }
+  if (!keyHash) issues.push(`${label}.keyHash is required`);
+  if (!name || !keyHash) return undefined;
+  const limit = (key: string) => jsonNumber(value[key], `${label}.${key}`, { integer: true, min: 0 }, issues) ?? 0;
   return {
-    port,
-    host,
-    upstreamBaseUrl,
-    upstreamApiKey,
-    upstreamModelOverride,
-    clientApiKey,
-    requestTimeoutMs,
-    aggregationIntervalMs,
-    maxRequestsPerMinute,
-    tokenMultiplier,
+    label: name,
+    keyHash,
+    enabled: jsonBoolean(value.enabled, `${label}.enabled`, issues) ?? true,
+    admin: jsonBoolean(value.admin, `${label}.admin`, issues) ?? false,
+    requestsPerMinute: limit("requestsPerMinute"),
+    maxConcurrentRequests: limit("maxConcurrentRequests"),
+    dailyTokenQuota: limit("dailyTokenQuota"),
+    monthlyTokenQuota: limit("monthlyTokenQuota"),
+  };
+}
+
+// 客户端密钥列表：CLIENT_KEYS（JSON 数组）整体替换配置文件中的 clientKeys
+function readClientKeys(source: ConfigSource): ClientKeyConfig[] {
+  const envKeys = envJson(source, "CLIENT_KEYS");
+  const [value, label] = envKeys === undefined
+    ? [source.file.clientKeys, fileLabel("clientKeys")]
+    : [envKeys, "CLIENT_KEYS"];
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    source.issues.push(`${label} must be an array`);
+    return [];
+  }
+  const keys = value
+    .map((item, index) => parseClientKey(item, `${label}[${index}]`, source.issues))
+    .filter((item): item is ClientKeyConfig => item !== undefined);
+  const labels = new Set<string>();
+  const hashes = new Set<string>();
+  for (const key of keys) {
+    if (labels.has(key.label)) source.issues.push(`duplicate client key label "${key.label}"`);
+    if (hashes.has(key.keyHash)) source.issues.push(`client key "${key.label}" reuses another key's keyHash`);
+    labels.add(key.label);
+    hashes.add(key.keyHash);
+  }
+  return keys;
+}
+
+/**
+ * 由配置文件内容和环境变量构造 ProxyConfig。
+ * 任何无效值都会被收集起来，最后以一条包含全部问题的错误抛出。
+ */
+export function buildConfig(file: JsonObject, env: Record<string, string | undefined>): ProxyConfig {
+  const source: ConfigSource = { env, file, issues: [] };
+  checkUnknownKeys(file, FILE_KEYS, "config file", source.issues);
+
+  // 启用自动端口时使用 0 让系统自动分配端口，否则使用指定的端口或默认端口 3456
+  const autoPort = readBoolean(source, "autoPort", "AUTO_PORT", false);
+  const port = readNumber(source, "port", "PORT", 3456, { integer: true, min: 0, max: 65535 });
+  const defaultTimeoutMs = readNumber(source, "timeoutMs", "TIMEOUT_MS", 120000, { min: 1 });
+  const upstreams = readUpstreams(source, defaultTimeoutMs);
+
+  const config: ProxyConfig = {
+    port: autoPort ? 0 : port,
+    host: readString(source, "host", "HOST") ?? "0.0.0.0",
+    upstreams,
+    routes: readRoutes(source, upstreams),
+    clientApiKey: readString(source, "clientApiKey", "CLIENT_API_KEY"),
+    clientKeys: readClientKeys(source),
+    upstreamRetry: readRetryPolicy(source),
+    failoverStatusCodes: envStatusCodes(source, "FAILOVER_STATUS_CODES") ??
+      jsonStatusCodes(file.failoverStatusCodes, fileLabel("failoverStatusCodes"), source.issues) ??
+      TRANSIENT_STATUS_CODES,
+    circuitBreakerThreshold: readNumber(source, "circuitBreakerThreshold", "CIRCUIT_BREAKER_THRESHOLD", 5, {
+      integer: true,
+      min: 0,
+    }),
+    circuitBreakerCooldownMs: readNumber(source, "circuitBreakerCooldownMs", "CIRCUIT_BREAKER_COOLDOWN_MS", 30000, {
+      min: 0,
+    }),
+    aggregationIntervalMs: readNumber(source, "aggregationIntervalMs", "AGGREGATION_INTERVAL_MS", 35, { min: 0 }),
+    usageLedgerFile: readString(source, "usageLedgerFile", "USAGE_LEDGER_FILE") ?? "logs/usage.ndjson",
+    logging: readLogging(source),
+    pingIntervalMs: readNumber(source, "pingIntervalMs", "PING_INTERVAL_MS", 15000, { min: 0 }),
+    firstTokenTimeoutMs: readNumber(source, "firstTokenTimeoutMs", "FIRST_TOKEN_TIMEOUT_MS", 120000, { min: 0 }),
+    idleTimeoutMs: readNumber(source, "idleTimeoutMs", "IDLE_TIMEOUT_MS", 60000, { min: 0 }),
+    maxRequestsPerMinute: readNumber(source, "maxRequestsPerMinute", "MAX_REQUESTS_PER_MINUTE", 10, {
+      integer: true,
+      min: 0,
+    }),
+    maxInputTokensPerMinute: readNumber(source, "maxInputTokensPerMinute", "MAX_INPUT_TOKENS_PER_MINUTE", 0, {
+      integer: true,
+      min: 0,
+    }),
+    maxOutputTokensPerMinute: readNumber(source, "maxOutputTokensPerMinute", "MAX_OUTPUT_TOKENS_PER_MINUTE", 0, {
+      integer: true,
+      min: 0,
+    }),
+    maxConcurrentStreams: readNumber(source, "maxConcurrentStreams", "MAX_CONCURRENT_STREAMS", 0, {
+      integer: true,
+      min: 0,
+    }),
+    rateLimitMaxQueue: readNumber(source, "rateLimitMaxQueue", "RATE_LIMIT_MAX_QUEUE", 100, { integer: true, min: 0 }),
+    rateLimitMaxWaitMs: readNumber(source, "rateLimitMaxWaitMs", "RATE_LIMIT_MAX_WAIT_MS", 60000, { min: 0 }),
+    tokenMultiplier: readTokenMultiplier(source),
     autoPort,
+    parallelToolCalls: readBoolean(source, "parallelToolCalls", "PARALLEL_TOOL_CALLS", false),
+    maxToolRepairAttempts: readNumber(source, "maxToolRepairAttempts", "MAX_TOOL_REPAIR_ATTEMPTS", 2, {
+      integer: true,
+      min: 0,
+    }),
+    invalidToolCallPolicy: readInvalidToolCallPolicy(source),
   };
+
+  if (source.issues.length) {
+    throw new Error(`Invalid configuration:\n${source.issues.map((issue) => `  - ${issue}`).join("\n")}`);
+  }
+  return config;
+}
+
+// 读取 JSON/JSONC 配置文件（支持注释和尾随逗号）
+export function readConfigFile(path: string): JsonObject {
+  let text: string;
+  try {
+    text = Deno.readTextFileSync(path);
+  } catch (error) {
+    throw new Error(`Cannot read config file ${path}: ${error}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = parseJsonc(text);
+  } catch (error) {
+    throw new Error(`Config file ${path} is not valid JSON/JSONC: ${error}`);
+  }
+  if (!isObject(parsed)) {
+    throw new Error(`Config file ${path} must contain a JSON object`);
+  }
+  return parsed;
+}
+
+// CONFIG_FILE 指定配置文件路径（可选），环境变量中的同名设置优先于配置文件
+export function loadConfig(): ProxyConfig {
+  const env = Deno.env.toObject();
+  const path = env.CONFIG_FILE;
+  const file = path ? readConfigFile(path) : {};
+  return buildConfig(file, env);
+}
+
+/**
+ * 监听配置文件变化并重新加载。编辑器保存时常常是“写临时文件再改名”，
+ * 所以监听所在目录并按文件名过滤，同时做简单的防抖。
+ * 新配置无效时记录错误并继续使用旧配置。
+ */
+export async function watchConfigFile(
+  path: string,
+  onReload: (config: ProxyConfig) => void,
+  signal?: AbortSignal,
+) {
+  const absolute = resolve(path);
+  const fileName = basename(absolute);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  log("info", "Watching config file for changes", { path: absolute });
+  const watcher = Deno.watchFs(dirname(absolute), { recursive: false });
+  // 关闭时同时取消尚未触发的重新加载
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    watcher.close();
+  }, { once: true });
+  for await (const event of watcher) {
+    if (!event.paths.some((changed) => basename(changed) === fileName)) continue;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        onReload(loadConfig());
+        log("info", "Config file reloaded", { path: absolute });
+      } catch (error) {
+        log("error", "Config reload failed, keeping previous configuration", {
+          path: absolute,
+          error: String(error),
+        });
+      }
+    }, 200);
+  }
 }
@@ -0,0 +1,70 @@
+import { buildConfig } from "./config.ts";
+
+Deno.test("buildConfig reads the config file and lets environment variables override it", () => {
+  const config = buildConfig({
+    port: 8080,
+    timeoutMs: 60000,
+    upstreams: [
+      { name: "main", baseUrl: "http://main/v1/chat/completions", fallbacks: ["cheap"] },
+      { name: "cheap", baseUrl: "http://cheap/v1/chat/completions", timeoutMs: 5000 },
+    ],
+    routes: { "claude-*-haiku*": "cheap" },
+    upstreamRetry: { maxAttempts: 5 },
+  }, { PORT: "9090", UPSTREAM_API_KEY: "sk-env" });
+
+  const [main, cheap] = config.upstreams;
+  const summary = {
+    port: config.port,
+    main: [main.name, main.apiKey, main.timeoutMs, main.fallbacks.join(",")],
+    cheap: [cheap.name, cheap.timeoutMs],
+    routes: config.routes,
+    maxAttempts: config.upstreamRetry.maxAttempts,
+  };
+  const expected = {
+    port: 9090,
+    main: ["main", "sk-env", 60000, "cheap"],
+    cheap: ["cheap", 5000],
+    routes: [{ pattern: "claude-*-haiku*", upstream: "cheap" }],
+    maxAttempts: 5,
+  };
+  if (JSON.stringify(summary) !== JSON.stringify(expected)) {
+    throw new Error(`Unexpected config: ${JSON.stringify(summary)}`);
+  }
+});
+
+Deno.test("buildConfig reports every invalid value instead of falling back", () => {
+  let message = "";
+  try {
+    buildConfig(
+      { prot: 1, routes: { "claude-*": "missing" }, upstreams: [{ name: "main" }] },
+      { PORT: "abc", PARALLEL_TOOL_CALLS: "yes", INVALID_TOOL_CALL_POLICY: "ignore", TOKEN_MULTIPLIER: "abc" },
+    );
+  } catch (error) {
+    message = String(error);
+  }
+  const expected = [
+    'unknown field "prot"',
+    'PORT must be an integer between 0 and 65535, got "abc"',
+    "PARALLEL_TOOL_CALLS must be true or false",
+    "upstreams[0].baseUrl is required",
+    'refers to unknown upstream "missing"',
+    "invalidToolCallPolicy must be one of",
+    'TOKEN_MULTIPLIER must be a positive number such as 1.2, 1.2x or 120%, got "abc"',
+  ];
+  for (const fragment of expected) {
+    if (!message.includes(fragment)) {
+      throw new Error(`Expected "${fragment}" in error:\n${message}`);
+    }
+  }
+});
+
+Deno.test("buildConfig reports an invalid TIMEOUT_MS once", () => {
+  let message = "";
+  try {
+    buildConfig({}, { TIMEOUT_MS: "0" });
+  } catch (error) {
+    message = String(error);
+  }
+  const count = message.split("TIMEOUT_MS must be").length - 1;
+  if (count !== 1) throw new Error(`Expected one TIMEOUT_MS issue, got ${count}:\n${message}`);
+});
@@ -0,0 +1,107 @@
+/**
+ * Anthropic 格式的错误响应：{ type: "error", error: { type, message } }，
+ * 并带上 request-id 响应头，方便客户端与日志对应。
+ */
+
+export type AnthropicErrorType =
+  | "invalid_request_error"
+  | "authentication_error"
+  | "permission_error"
+  | "not_found_error"
+  | "request_too_large"
+  | "rate_limit_error"
+  | "api_error"
+  | "overloaded_error";
+
+const ERROR_STATUS: Record<AnthropicErrorType, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+// 处理请求过程中可以直接映射为 Anthropic 错误类型的异常；retryAfterSeconds 会作为 retry-after 响应头返回
+export class ProxyError extends Error {
+  constructor(readonly type: AnthropicErrorType, message: string, readonly retryAfterSeconds?: number) {
+    super(message);
+    this.name = "ProxyError";
+  }
+}
+
+export function errorBody(type: AnthropicErrorType, message: string) {
+  return { type: "error", error: { type, message } };
+}
+
+export function errorResponse(
+  type: AnthropicErrorType,
+  message: string,
+  requestId?: string,
+  headers: Record<string, string> = {},
+): Response {
+  const responseHeaders = new Headers({ "content-type": "application/json", ...headers });
+  if (requestId) responseHeaders.set("request-id", requestId);
+  return new Response(JSON.stringify(errorBody(type, message)), {
+    status: ERROR_STATUS[type],
+    headers: responseHeaders,
+  });
+}
+
+/**
+ * 把上游返回的 HTTP 状态码映射为 Anthropic 错误类型：
+ * - 400/422 → invalid_request_error，404 → not_found_error，413 → request_too_large；
+ * - 429 → rate_limit_error；
+ * - 5xx → overloaded_error（529）；
+ * - 上游的 401/403 是代理自身的上游密钥问题，不是客户端的认证问题，按 api_error 处理。
+ */
+export function mapUpstreamStatus(status: number): AnthropicErrorType {
+  if (status === 400 || status === 422) return "invalid_request_error";
+  if (status === 404) return "not_found_error";
+  if (status === 413) return "request_too_large";
+  if (status === 429) return "rate_limit_error";
+  if (status >= 500) return "overloaded_error";
+  return "api_error";
+}
+
+// 尽量从上游的错误响应体中取出可读的错误信息（OpenAI 格式为 { error: { message } }）
+export function upstreamErrorMessage(status: number, bodyText: string): string {
+  let detail = bodyText.trim();
+  try {
+    const parsed = JSON.parse(bodyText);
+    const message = parsed?.error?.message ?? parsed?.message ?? parsed?.error;
+    if (typeof message === "string" && message) detail = message;
+  } catch {
+    // 不是 JSON 时直接使用原文
+  }
+  if (detail.length > 500) detail = `${detail.slice(0, 500)}...`;
+  return detail ? `Upstream returned ${status}: ${detail}` : `Upstream returned ${status}`;
+}
+
+// 处理请求时抛出的任意异常：ProxyError 保持原样，其余视为代理内部错误
+export function toProxyError(error: unknown): ProxyError {
+  if (error instanceof ProxyError) return error;
+  return new ProxyError("api_error", `Internal proxy error: ${String(error)}`);
+}
+
+/**
+ * 识别上游 SSE 流中的错误负载（OpenAI 兼容接口在流中途出错时会发送 { error: { message, type, code } }），
+ * 不是错误负载时返回 undefined。
+ */
+export function upstreamStreamError(payload: unknown): ProxyError | undefined {
+  if (!payload || typeof payload !== "object") return undefined;
+  const { error, choices } = payload as { error?: unknown; choices?: unknown };
+  if (!error || Array.isArray(choices)) return undefined;
+  const detail = typeof error === "object" ? error as Record<string, unknown> : { message: error };
+  const message = typeof detail.message === "string" && detail.message ? detail.message : JSON.stringify(error);
+  const kind = `${detail.type ?? ""} ${detail.code ?? ""}`;
+  const status = Number(detail.code ?? detail.status);
+  let type: AnthropicErrorType = "api_error";
+  if (Number.isInteger(status) && status >= 400) type = mapUpstreamStatus(status);
+  else if (kind.includes("rate_limit")) type = "rate_limit_error";
+  else if (kind.includes("overloaded")) type = "overloaded_error";
+  else if (kind.includes("invalid_request")) type = "invalid_request_error";
+  return new ProxyError(type, `Upstream stream error: ${message}`);
+}
@@ -0,0 +1,51 @@
+import { mapUpstreamStatus, upstreamErrorMessage, upstreamStreamError } from "./errors.ts";
+
+Deno.test("mapUpstreamStatus maps upstream statuses to Anthropic error types", () => {
+  const cases: [number, string][] = [
+    [400, "invalid_request_error"],
+    [422, "invalid_request_error"],
+    [401, "api_error"],
+    [403, "api_error"],
+    [404, "not_found_error"],
+    [413, "request_too_large"],
+    [429, "rate_limit_error"],
+    [500, "overloaded_error"],
+    [503, "overloaded_error"],
+  ];
+  for (const [status, expected] of cases) {
+    const actual = mapUpstreamStatus(status);
+    if (actual !== expected) {
+      throw new Error(`status ${status}: expected ${expected}, got ${actual}`);
+    }
+  }
+});
+
+Deno.test("upstreamErrorMessage extracts OpenAI error messages", () => {
+  const cases: [string, string][] = [
+    [`{"error":{"message":"context too long"}}`, "Upstream returned 400: context too long"],
+    ["plain failure", "Upstream returned 400: plain failure"],
+    ["", "Upstream returned 400"],
+  ];
+  for (const [body, expected] of cases) {
+    const actual = upstreamErrorMessage(400, body);
+    if (actual !== expected) {
+      throw new Error(`body ${body}: expected ${expected}, got ${actual}`);
+    }
+  }
+});
+
+Deno.test("upstreamStreamError detects error payloads inside the upstream stream", () => {
+  const cases: [unknown, string | undefined][] = [
+    [{ error: { message: "slow down", type: "rate_limit_exceeded" } }, "rate_limit_error"],
+    [{ error: { message: "busy", code: 503 } }, "overloaded_error"],
+    [{ error: "boom" }, "api_error"],
+    [{ choices: [{ delta: { content: "hi" } }] }, undefined],
+    [{ choices: [], error: null }, undefined],
+  ];
+  for (const [payload, expected] of cases) {
+    const actual = upstreamStreamError(payload)?.type;
+    if (actual !== expected) {
+      throw new Error(`payload ${JSON.stringify(payload)}: expected ${expected}, got ${actual}`);
+    }
+  }
+});
@@ -1,5 +1,3 @@
-import { ensureDir } from "https://deno.land/std@0.224.0/fs/mod.ts";
-
 export type LogLevel = "debug" | "info" | "warn" | "error";
 
 const levelOrder: Record<LogLevel, number> = {
@@ -13,47 +11,91 @@ const levelOrder: Record<LogLevel, number> = {
 const LOGGING_DISABLED = Deno.env.get("LOGGING_DISABLED") === "true" || Deno.env.get("LOGGING_DISABLED") === "1";
 const configuredLevel = (Deno.env.get("LOG_LEVEL")?.toLowerCase() as LogLevel) ?? "info";
 
-// Request-specific log files
-const requestLogFiles = new Map<string, Deno.FsFile>();
+const encoder = new TextEncoder();
 
-async function getRequestLogFile(requestId: string): Promise<Deno.FsFile> {
-  let file = requestLogFiles.get(requestId);
-  if (!file) {
-    await ensureDir("logs/req");
-    file = await Deno.open(`logs/req/${requestId}.txt`, {
-      write: true,
-      create: true,
-      append: true,
-    });
-    requestLogFiles.set(requestId, file);
-  }
-  return file;
+// text 为原有的人类可读格式，json 为每行一个 JSON 对象（JSON Lines），字段固定，便于日志采集
+export type LogFormat = "text" | "json";
+export type LogSinkName = "stdout" | "file" | "request";
+export const LOG_FORMATS: LogFormat[] = ["text", "json"];
+export const LOG_SINK_NAMES: LogSinkName[] = ["stdout", "file", "request"];
+
+export interface LogRecord {
+  timestamp: string;
+  level: LogLevel;
+  // 请求日志（logRequest）才有
+  requestId?: string;
+  message: string;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * 日志的输出目的地。系统日志（log）与请求日志（logRequest）分别写入各自的一组 sink，
+ * 同一个 sink 可以同时出现在两组中。
+ */
+export interface LogSink {
+  write(record: LogRecord): void | Promise<void>;
+  // 请求结束时调用，按请求分文件的 sink 在这里关闭文件
+  closeRequest?(requestId: string): void;
+}
+
+export interface LoggingOptions {
+  format: LogFormat;
+  // 系统日志与请求日志各自写入哪些 sink
+  sinks: LogSinkName[];
+  requestSinks: LogSinkName[];
+  // file sink：单个文件超过 fileMaxBytes 时轮转为 <file>.1 ... <file>.<fileMaxFiles>
+  file: string;
+  fileMaxBytes: number;
+  fileMaxFiles: number;
+  // request sink：每个请求一个文件，目录总大小超过 requestDirMaxBytes 时从最旧的文件开始删除
+  requestDir: string;
+  requestDirMaxBytes: number;
+  // 轮转出的日志文件与请求日志文件的保留时间；当前日志文件写入超过这么久也会轮转（0 表示不限制）
+  maxAgeMs: number;
 }
 
-export async function closeRequestLog(requestId: string) {
-  const file = requestLogFiles.get(requestId);
-  if (file) {
-    file.close();
-    requestLogFiles.delete(requestId);
+export const DEFAULT_LOGGING_OPTIONS: LoggingOptions = {
+  format: "text",
+  sinks: ["stdout"],
+  requestSinks: ["request"],
+  file: "logs/proxy.log",
+  fileMaxBytes: 10 * 1024 * 1024,
+  fileMaxFiles: 5,
+  requestDir: "logs/req",
+  requestDirMaxBytes: 100 * 1024 * 1024,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+// JSON 格式下把 Error、bigint 等 JSON.stringify 无法直接处理的值转换为可读形式
+function jsonReplacer(_key: string, value: unknown) {
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
+
+function formatJson(record: LogRecord): string {
+  // 系统日志常把 requestId 放在 meta 中，统一提到顶层字段
+  const { requestId: metaRequestId, ...meta } = record.meta ?? {};
+  const requestId = record.requestId ?? (typeof metaRequestId === "string" ? metaRequestId : null);
+  const base = { timestamp: record.timestamp, level: record.level, requestId, message: record.message };
+  try {
+    return JSON.stringify({ ...base, meta }, jsonReplacer);
+  } catch (error) {
+    return JSON.stringify({ ...base, meta: { unserializable: String(error) } });
   }
 }
 
-export async function logRequest(requestId: string, level: LogLevel, message: string, meta?: Record<string, unknown>) {
-  // 如果日志被禁用，直接返回
-  if (LOGGING_DISABLED) return;
-  
-  if (levelOrder[level] < levelOrder[configuredLevel]) return;
-  
-  const timestamp = new Date().toISOString();
-  const levelTag = `[${level.toUpperCase()}]`.padEnd(7);
-  
-  // Format metadata, exclude requestId and timestamp
+function formatText(record: LogRecord, includeRequestId: boolean): string {
+  const levelTag = `[${record.level.toUpperCase()}]`.padEnd(7);
+  const requestTag = includeRequestId && record.requestId ? `[${record.requestId}] ` : "";
+
+  // Format metadata; 请求日志的 requestId 已经体现在文件名或前缀中
   let metaStr = "";
-  if (meta && Object.keys(meta).length > 0) {
+  if (record.meta && Object.keys(record.meta).length > 0) {
     const parts: string[] = [];
-    for (const [key, value] of Object.entries(meta)) {
-      if (key === "requestId" || value === undefined || value === null) continue;
-      
+    for (const [key, value] of Object.entries(record.meta)) {
+      if ((record.requestId && key === "requestId") || value === undefined || value === null) continue;
+
       let valueStr: string;
       if (typeof value === "string") {
         // No truncation for strings
@@ -70,14 +112,269 @@ export async function logRequest(requestId: string, level: LogLevel, message: st
       metaStr = " | " + parts.join(", ");
     }
   }
-  
-  const line = `${timestamp} ${levelTag} ${message}${metaStr}\n`;
-  
+
+  return `${record.timestamp} ${levelTag} ${requestTag}${record.message}${metaStr}`;
+}
+
+/**
+ * 把一条日志格式化为一行（不含换行符）。includeRequestId 为 false 时 text 格式省略请求 ID 前缀，
+ * 用于本身就按请求分文件的 sink；json 格式总是包含 requestId 字段（没有时为 null）。
+ */
+export function formatLogRecord(record: LogRecord, format: LogFormat, includeRequestId = true): string {
+  return format === "json" ? formatJson(record) : formatText(record, includeRequestId);
+}
+
+async function writeAll(file: Deno.FsFile, bytes: Uint8Array) {
+  let written = 0;
+  while (written < bytes.length) {
+    written += await file.write(bytes.subarray(written));
+  }
+}
+
+async function removeIfExists(path: string) {
   try {
-    const file = await getRequestLogFile(requestId);
-    await file.write(new TextEncoder().encode(line));
+    await Deno.remove(path);
   } catch (error) {
-    console.error(`Failed to write to request log: ${error}`);
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+}
+
+function parentDir(path: string): string | undefined {
+  const slash = path.lastIndexOf("/");
+  return slash > 0 ? path.slice(0, slash) : undefined;
+}
+
+// 标准输出：error / warn 分别走 console.error / console.warn，其余走 console.log
+export class StdoutSink implements LogSink {
+  constructor(private readonly format: LogFormat) {}
+
+  write(record: LogRecord) {
+    const line = formatLogRecord(record, this.format);
+    switch (record.level) {
+      case "error":
+        console.error(line);
+        break;
+      case "warn":
+        console.warn(line);
+        break;
+      default:
+        console.log(line);
+    }
+  }
+}
+
+/**
+ * 追加写入单个日志文件，写入串行进行。文件超过 maxBytes、或当前文件已写入超过 maxAgeMs 时轮转：
+ * <path> → <path>.1 → ... → <path>.<maxFiles>，更旧的直接丢弃，轮转出的文件超过 maxAgeMs 也会删除。
+ */
+export class RotatingFileSink implements LogSink {
+  private file?: Deno.FsFile;
+  private size = 0;
+  private openedAt = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    private readonly format: LogFormat,
+    private readonly maxBytes: number,
+    private readonly maxFiles: number,
+    private readonly maxAgeMs: number,
+  ) {}
+
+  write(record: LogRecord): Promise<void> {
+    const bytes = encoder.encode(`${formatLogRecord(record, this.format)}\n`);
+    this.writes = this.writes
+      .then(() => this.append(bytes, Date.now()))
+      .catch((error) => console.error(`Failed to write log file ${this.path}: ${error}`));
+    return this.writes;
+  }
+
+  private async append(bytes: Uint8Array, now: number) {
+    if (!this.file) await this.open(now);
+    const tooLarge = this.maxBytes > 0 && this.size + bytes.length > this.maxBytes;
+    const tooOld = this.maxAgeMs > 0 && now - this.openedAt > this.maxAgeMs;
+    if (this.size > 0 && (tooLarge || tooOld)) await this.rotate(now);
+    await writeAll(this.file!, bytes);
+    this.size += bytes.length;
+  }
+
+  private async open(now: number) {
+    const dir = parentDir(this.path);
+    if (dir) await Deno.mkdir(dir, { recursive: true });
+    this.file = await Deno.open(this.path, { write: true, create: true, append: true });
+    const info = await this.file.stat();
+    this.size = info.size;
+    // 重启后继续写入已有文件时，按它的创建时间计算写入了多久
+    this.openedAt = info.size > 0 ? info.birthtime?.getTime() ?? info.mtime?.getTime() ?? now : now;
+  }
+
+  private async rotate(now: number) {
+    this.file?.close();
+    this.file = undefined;
+    if (this.maxFiles > 0) {
+      // rename 会覆盖目标文件，最旧的 <path>.<maxFiles> 因此被丢弃
+      for (let index = this.maxFiles - 1; index >= 1; index--) {
+        try {
+          await Deno.rename(`${this.path}.${index}`, `${this.path}.${index + 1}`);
+        } catch (error) {
+          if (!(error instanceof Deno.errors.NotFound)) throw error;
+        }
+      }
+      await Deno.rename(this.path, `${this.path}.1`);
+    } else {
+      await removeIfExists(this.path);
+    }
+    if (this.maxAgeMs > 0) {
+      for (let index = 1; index <= this.maxFiles; index++) {
+        const rotated = `${this.path}.${index}`;
+        const mtime = await Deno.stat(rotated).then((info) => info.mtime?.getTime(), () => undefined);
+        if (mtime !== undefined && now - mtime > this.maxAgeMs) await removeIfExists(rotated);
+      }
+    }
+    await this.open(now);
+  }
+}
+
+// 请求日志目录的清理最多每分钟进行一次
+const PRUNE_INTERVAL_MS = 60_000;
+
+/**
+ * 每个请求一个日志文件（<dir>/<requestId>.txt，json 格式为 .jsonl），请求结束时关闭。
+ * 打开新文件时顺带清理目录：删除超过 maxAgeMs 的文件，总大小仍超过 maxBytes 时从最旧的开始删除。
+ */
+export class RequestDirSink implements LogSink {
+  private files = new Map<string, Promise<Deno.FsFile>>();
+  private lastPruneAt = 0;
+  private pruning = false;
+
+  constructor(
+    private readonly dir: string,
+    private readonly format: LogFormat,
+    private readonly maxBytes: number,
+    private readonly maxAgeMs: number,
+  ) {}
+
+  async write(record: LogRecord) {
+    if (!record.requestId) return;
+    const file = await this.fileFor(record.requestId);
+    await writeAll(file, encoder.encode(`${formatLogRecord(record, this.format, false)}\n`));
+  }
+
+  closeRequest(requestId: string) {
+    const file = this.files.get(requestId);
+    if (!file) return;
+    this.files.delete(requestId);
+    file.then((opened) => opened.close(), () => {});
+  }
+
+  // 仍然打开着的请求日志数量
+  openRequestCount(): number {
+    return this.files.size;
+  }
+
+  private fileFor(requestId: string): Promise<Deno.FsFile> {
+    let file = this.files.get(requestId);
+    if (!file) {
+      const extension = this.format === "json" ? "jsonl" : "txt";
+      file = Deno.mkdir(this.dir, { recursive: true }).then(() =>
+        Deno.open(`${this.dir}/${requestId}.${extension}`, { write: true, create: true, append: true })
+      );
+      // 打开失败时移除，下一条日志重新尝试
+      file.catch(() => this.files.delete(requestId));
+      this.files.set(requestId, file);
+      this.schedulePrune(Date.now());
+    }
+    return file;
+  }
+
+  private schedulePrune(now: number) {
+    if (this.maxBytes <= 0 && this.maxAgeMs <= 0) return;
+    if (this.pruning || now - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+    this.lastPruneAt = now;
+    this.pruning = true;
+    this.prune(now)
+      .catch((error) => console.error(`Failed to prune request logs in ${this.dir}: ${error}`))
+      .finally(() => this.pruning = false);
+  }
+
+  async prune(now = Date.now()) {
+    const entries: { path: string; size: number; mtime: number }[] = [];
+    for await (const entry of Deno.readDir(this.dir)) {
+      const requestId = entry.name.replace(/\.(txt|jsonl)$/, "");
+      // 仍在写入的请求日志不删除
+      if (!entry.isFile || this.files.has(requestId)) continue;
+      const path = `${this.dir}/${entry.name}`;
+      const info = await Deno.stat(path).catch(() => undefined);
+      if (info) entries.push({ path, size: info.size, mtime: info.mtime?.getTime() ?? now });
+    }
+    entries.sort((a, b) => a.mtime - b.mtime);
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries) {
+      const expired = this.maxAgeMs > 0 && now - entry.mtime > this.maxAgeMs;
+      const overBudget = this.maxBytes > 0 && total > this.maxBytes;
+      if (!expired && !overBudget) continue;
+      await removeIfExists(entry.path);
+      total -= entry.size;
+    }
+  }
+}
+
+let systemSinks: LogSink[] = [];
+let requestSinks: LogSink[] = [];
+
+// 直接指定系统日志与请求日志的 sink，可以传入自定义实现
+export function setLogSinks(system: LogSink[], request: LogSink[]) {
+  systemSinks = system;
+  requestSinks = request;
+}
+
+// 按配置创建 sink；两组都用到 file 时共用同一个轮转文件
+export function configureLogging(options: LoggingOptions) {
+  const created = new Map<LogSinkName, LogSink>();
+  const sinkFor = (name: LogSinkName): LogSink => {
+    let sink = created.get(name);
+    if (!sink) {
+      if (name === "stdout") {
+        sink = new StdoutSink(options.format);
+      } else if (name === "file") {
+        sink = new RotatingFileSink(
+          options.file,
+          options.format,
+          options.fileMaxBytes,
+          options.fileMaxFiles,
+          options.maxAgeMs,
+        );
+      } else {
+        sink = new RequestDirSink(options.requestDir, options.format, options.requestDirMaxBytes, options.maxAgeMs);
+      }
+      created.set(name, sink);
+    }
+    return sink;
+  };
+  setLogSinks(options.sinks.map(sinkFor), options.requestSinks.map(sinkFor));
+}
+
+configureLogging(DEFAULT_LOGGING_OPTIONS);
+
+export function closeRequestLog(requestId: string) {
+  for (const sink of requestSinks) {
+    sink.closeRequest?.(requestId);
+  }
+}
+
+export async function logRequest(requestId: string, level: LogLevel, message: string, meta?: Record<string, unknown>) {
+  // 如果日志被禁用，直接返回
+  if (LOGGING_DISABLED) return;
+
+  if (levelOrder[level] < levelOrder[configuredLevel]) return;
+
+  const record: LogRecord = { timestamp: new Date().toISOString(), level, requestId, message, meta };
+  for (const sink of requestSinks) {
+    try {
+      await sink.write(record);
+    } catch (error) {
+      console.error(`Failed to write to request log: ${error}`);
+    }
   }
 }
 
@@ -85,46 +382,16 @@ export async function logRequest(requestId: string, level: LogLevel, message: st
 export function log(level: LogLevel, message: string, meta?: Record<string, unknown>) {
   // 如果日志被禁用，直接返回
   if (LOGGING_DISABLED) return;
-  
+
   if (levelOrder[level] < levelOrder[configuredLevel]) return;
-  
-  const timestamp = new Date().toISOString();
-  const levelTag = `[${level.toUpperCase()}]`.padEnd(7);
-  
-  // Format metadata
-  let metaStr = "";
-  if (meta && Object.keys(meta).length > 0) {
-    const parts: string[] = [];
-    for (const [key, value] of Object.entries(meta)) {
-      if (value === undefined || value === null) continue;
-      
-      let valueStr: string;
-      if (typeof value === "string") {
-        // No truncation for strings
-        valueStr = value;
-      } else if (typeof value === "object") {
-        // Pretty print JSON with 2-space indentation
-        valueStr = JSON.stringify(value, null, 2);
-      } else {
-        valueStr = String(value);
-      }
-      parts.push(`${key}=${valueStr}`);
-    }
-    if (parts.length > 0) {
-      metaStr = " | " + parts.join(", ");
+
+  const record: LogRecord = { timestamp: new Date().toISOString(), level, message, meta };
+  for (const sink of systemSinks) {
+    try {
+      const pending = sink.write(record);
+      if (pending) pending.catch((error) => console.error(`Failed to write log: ${error}`));
+    } catch (error) {
+      console.error(`Failed to write log: ${error}`);
     }
   }
-  
-  const line = `${timestamp} ${levelTag} ${message}${metaStr}`;
-  
-  switch (level) {
-    case "error":
-      console.error(line);
-      break;
-    case "warn":
-      console.warn(line);
-      break;
-    default:
-      console.log(line);
-  }
-}
\ No newline at end of file
+}
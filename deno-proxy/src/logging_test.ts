@@ -0,0 +1,79 @@
+import { formatLogRecord, LogRecord, RequestDirSink, RotatingFileSink } from "./logging.ts";
+
+function record(message: string, requestId?: string): LogRecord {
+  return {
+    timestamp: "2024-05-01T00:00:00.000Z",
+    level: "info",
+    requestId,
+    message,
+    meta: { upstream: "main", error: new Error("boom") },
+  };
+}
+
+Deno.test("formatLogRecord writes JSON lines with stable fields", () => {
+  const line = formatLogRecord({ ...record("Handling"), meta: { requestId: "req-1", status: 200 } }, "json");
+  const expected = {
+    timestamp: "2024-05-01T00:00:00.000Z",
+    level: "info",
+    requestId: "req-1",
+    message: "Handling",
+    meta: { status: 200 },
+  };
+  if (line !== JSON.stringify(expected)) {
+    throw new Error(`Unexpected JSON line: ${line}`);
+  }
+  const withError = JSON.parse(formatLogRecord(record("Failed"), "json"));
+  if (withError.requestId !== null || withError.meta.error.message !== "boom") {
+    throw new Error(`Unexpected JSON line: ${JSON.stringify(withError)}`);
+  }
+  const text = formatLogRecord({ ...record("Done", "req-2"), meta: { status: 200 } }, "text");
+  if (text !== "2024-05-01T00:00:00.000Z [INFO]  [req-2] Done | status=200") {
+    throw new Error(`Unexpected text line: ${text}`);
+  }
+});
+
+Deno.test("RotatingFileSink rotates by size and keeps a bounded number of files", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const sink = new RotatingFileSink(`${dir}/proxy.log`, "json", 300, 2, 0);
+    for (let index = 0; index < 10; index++) {
+      await sink.write(record(`message ${index}`));
+    }
+    const names = [];
+    for await (const entry of Deno.readDir(dir)) names.push(entry.name);
+    if (JSON.stringify(names.sort()) !== JSON.stringify(["proxy.log", "proxy.log.1", "proxy.log.2"])) {
+      throw new Error(`Unexpected files: ${names}`);
+    }
+    const latest = (await Deno.readTextFile(`${dir}/proxy.log`)).trim().split("\n").map((line) => JSON.parse(line));
+    if (latest.at(-1).message !== "message 9" || (await Deno.stat(`${dir}/proxy.log`)).size > 300) {
+      throw new Error("The current log file should hold the latest lines within the size limit");
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("RequestDirSink prunes expired and oversized request logs but keeps open ones", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+    const files = { "expired.txt": now - 10 * day, "old.txt": now - 2 * day, "recent.txt": now - day };
+    for (const [name, mtime] of Object.entries(files)) {
+      await Deno.writeTextFile(`${dir}/${name}`, "x".repeat(100));
+      await Deno.utime(`${dir}/${name}`, mtime / 1000, mtime / 1000);
+    }
+    const sink = new RequestDirSink(dir, "text", 150, 7 * day);
+    await sink.write(record("still running", "open"));
+    await sink.prune(now);
+
+    const names = [];
+    for await (const entry of Deno.readDir(dir)) names.push(entry.name);
+    if (JSON.stringify(names.sort()) !== JSON.stringify(["open.txt", "recent.txt"])) {
+      throw new Error(`Unexpected files: ${names}`);
+    }
+    sink.closeRequest("open");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
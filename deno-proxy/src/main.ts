@@ -1,16 +1,38 @@
 import { serve } from "https://deno.land/std/http/server.ts";
-import { loadConfig, ProxyConfig } from "./config.ts";
-import { log, logRequest, closeRequestLog } from "./logging.ts";
-import { mapClaudeToOpenAI } from "./anthropic_to_openai.ts";
+import { ClientKeyConfig, loadConfig, ProxyConfig, UpstreamConfig, watchConfigFile } from "./config.ts";
+import { closeRequestLog, configureLogging, log, logRequest } from "./logging.ts";
+import { mapClaudeToOpenAI, validStopSequences } from "./anthropic_to_openai.ts";
 import { injectPrompt } from "./prompt_inject.ts";
-import { callUpstream } from "./upstream.ts";
+import { callUpstream, readWithTimeout } from "./upstream.ts";
+import { matchRoute, resolveUpstream, upstreamCandidates } from "./router.ts";
+import { UpstreamHealth } from "./circuit_breaker.ts";
+import { ClientLease, ClientRegistry, extractApiKey } from "./client_keys.ts";
+import {
+  errorBody,
+  errorResponse,
+  mapUpstreamStatus,
+  ProxyError,
+  toProxyError,
+  upstreamErrorMessage,
+  upstreamStreamError,
+} from "./errors.ts";
 import { ToolifyParser } from "./parser.ts";
 import { ClaudeStream } from "./openai_to_claude.ts";
 import { SSEWriter } from "./sse.ts";
-import { ClaudeRequest } from "./types.ts";
-import { RateLimiter } from "./rate_limiter.ts";
+import { MessageCollector } from "./message_collector.ts";
+import { ClaudeRequest, OpenAIChatRequest } from "./types.ts";
+import { ConcurrencyLimiter, ConcurrencySlot, QueueLimits, RateLimiter, RateLimits } from "./rate_limiter.ts";
 import { randomTriggerSignal } from "./signals.ts";
 import { countTokens } from "./token_counter.ts";
+import { UsageFilter, UsageLedger, UsageRecord } from "./usage_ledger.ts";
+import { metrics } from "./metrics.ts";
+import {
+  allowsParallelToolCalls,
+  buildToolChoiceReminder,
+  requiresToolCall,
+  toolsDisabled,
+} from "./tool_choice.ts";
+import { appendRepairTurn, buildInvalidArgumentsReminder, buildMalformedToolCallReminder } from "./tool_repair.ts";
 
 function extractDeltaText(delta: Record<string, unknown> | undefined): string {
   if (!delta) return "";
@@ -32,45 +54,656 @@ function extractDeltaText(delta: Record<string, unknown> | undefined): string {
   return "";
 }
 
-const config = loadConfig();
-const rateLimiter = new RateLimiter(config.maxRequestsPerMinute, 60_000);
+function rateLimits(config: ProxyConfig): RateLimits {
+  return {
+    requestsPerMinute: config.maxRequestsPerMinute,
+    inputTokensPerMinute: config.maxInputTokensPerMinute,
+    outputTokensPerMinute: config.maxOutputTokensPerMinute,
+  };
+}
+
+function queueLimits(config: ProxyConfig): QueueLimits {
+  return { maxQueueLength: config.rateLimitMaxQueue, maxWaitMs: config.rateLimitMaxWaitMs };
+}
+
+let config = loadConfig();
+configureLogging(config.logging);
+let rateLimiter = new RateLimiter(rateLimits(config), queueLimits(config));
+let streamLimiter = new ConcurrencyLimiter(config.maxConcurrentStreams, queueLimits(config));
+let upstreamHealth = new UpstreamHealth(config.circuitBreakerThreshold, config.circuitBreakerCooldownMs);
+const clientRegistry = new ClientRegistry(config);
+let usageLedger = new UsageLedger(config.usageLedgerFile);
+// 服务关闭时触发，所有进行中的上游请求都会随之中止
+const shutdownController = new AbortController();
+
+const requestsTotal = metrics.counter(
+  "proxy_requests_total",
+  "HTTP requests handled, by route, status and model",
+);
+const inputTokensTotal = metrics.counter(
+  "proxy_input_tokens_total",
+  "Input tokens of finished requests, by client and model",
+);
+const outputTokensTotal = metrics.counter(
+  "proxy_output_tokens_total",
+  "Output tokens of finished requests, by client and model",
+);
+const upstreamLatency = metrics.histogram(
+  "proxy_upstream_latency_seconds",
+  "Time from sending an upstream request (including retries) to receiving its response headers",
+);
+const firstTokenLatency = metrics.histogram(
+  "proxy_upstream_first_token_seconds",
+  "Time from sending an upstream request to receiving its first token",
+);
+// 限流器会在配置热加载时重建，仪表在抓取时读取当前实例
+metrics.gauge(
+  "proxy_rate_limit_queue_length",
+  "Requests waiting for the global rate limiter",
+  () => rateLimiter.getQueueLength(),
+);
+metrics.gauge(
+  "proxy_streams_in_flight",
+  "Responses currently holding a stream slot",
+  () => streamLimiter.getActiveCount(),
+);
+metrics.gauge(
+  "proxy_stream_queue_length",
+  "Requests waiting for a free stream slot",
+  () => streamLimiter.getQueueLength(),
+);
+
+// 请求的模型在指标中的标签，供 handler 在响应后按模型计数（只有读取了请求体的路由才有）
+const requestModels = new WeakMap<Request, string>();
+
+// 模型名来自客户端，直接作为指标标签会让序列数无限增长，所以记为命中的路由规则，未命中或没有模型时记为 other
+function modelLabel(model: string | undefined): string {
+  return matchRoute(config, model)?.pattern ?? "other";
+}
+
+/**
+ * 配置文件热加载：新配置只影响之后的请求，进行中的流继续使用已经选定的上游与 ClaudeStream。
+ * 限流器与熔断器只在相关参数变化时重建，客户端的用量统计总是保留；端口、监听地址与日志设置需要重启才能生效。
+ */
+function applyConfig(next: ProxyConfig) {
+  const queueChanged = JSON.stringify(queueLimits(next)) !== JSON.stringify(queueLimits(config));
+  if (queueChanged || JSON.stringify(rateLimits(next)) !== JSON.stringify(rateLimits(config))) {
+    rateLimiter = new RateLimiter(rateLimits(next), queueLimits(next));
+  }
+  // 已占用的名额归还给旧的信号量，重建后短时间内可能略微超出新的上限
+  if (queueChanged || next.maxConcurrentStreams !== config.maxConcurrentStreams) {
+    streamLimiter = new ConcurrencyLimiter(next.maxConcurrentStreams, queueLimits(next));
+  }
+  if (
+    next.circuitBreakerThreshold !== config.circuitBreakerThreshold ||
+    next.circuitBreakerCooldownMs !== config.circuitBreakerCooldownMs
+  ) {
+    upstreamHealth = new UpstreamHealth(next.circuitBreakerThreshold, next.circuitBreakerCooldownMs);
+  }
+  clientRegistry.configure(next);
+  if (next.usageLedgerFile !== config.usageLedgerFile) {
+    usageLedger = new UsageLedger(next.usageLedgerFile);
+  }
+  if (next.port !== config.port || next.host !== config.host || next.autoPort !== config.autoPort) {
+    log("warn", "Listen address changes require a restart", { host: next.host, port: next.port });
+  }
+  // 进行中的请求日志仍由旧的 sink 写入，切换 sink 需要重启
+  if (JSON.stringify(next.logging) !== JSON.stringify(config.logging)) {
+    log("warn", "Logging changes require a restart", { logging: next.logging });
+  }
+  config = next;
+}
+
+function jsonResponse(body: unknown, status = 200, requestId?: string) {
+  const headers = new Headers({ "content-type": "application/json" });
+  if (requestId) headers.set("request-id", requestId);
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+function unauthorized(requestId?: string) {
+  return errorResponse("authentication_error", "invalid x-api-key", requestId);
+}
+
+function exceptionResponse(error: unknown, requestId: string) {
+  const proxyError = toProxyError(error);
+  const headers: Record<string, string> = proxyError.retryAfterSeconds === undefined
+    ? {}
+    : { "retry-after": String(proxyError.retryAfterSeconds) };
+  return errorResponse(proxyError.type, proxyError.message, requestId, headers);
+}
+
+// 解析请求体：必须是包含 messages 数组的 JSON 对象
+async function readClaudeRequest(req: Request): Promise<ClaudeRequest> {
+  let body: unknown;
+  try {
+    body = JSON.parse(await req.text());
+  } catch {
+    throw new ProxyError("invalid_request_error", "Request body is not valid JSON");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ProxyError("invalid_request_error", "Request body must be a JSON object");
+  }
+  if (!Array.isArray((body as ClaudeRequest).messages)) {
+    throw new ProxyError("invalid_request_error", "messages: Field required");
+  }
+  const { model } = body as ClaudeRequest;
+  if (typeof model === "string") requestModels.set(req, modelLabel(model));
+  return body as ClaudeRequest;
+}
+
+// 识别请求对应的客户端：缺少或错误的密钥返回 401，已停用的密钥返回 403
+async function authenticateClient(
+  req: Request,
+  requestId?: string,
+): Promise<{ client: ClientKeyConfig } | { error: Response }> {
+  const result = await clientRegistry.authenticate(extractApiKey(req));
+  if (!("error" in result)) return result;
+  if (result.error === "disabled") {
+    return { error: errorResponse("permission_error", `API key "${result.client.label}" is disabled`, requestId) };
+  }
+  return { error: unauthorized(requestId) };
+}
+
+// 一个下游请求占用的名额：客户端自己的并发与配额，以及全局的并发流名额；其余字段用于写入用量账本
+interface RequestPermits {
+  client: ClientKeyConfig;
+  lease: ClientLease;
+  streamSlot: ConcurrencySlot;
+  model: string;
+  // 指标中使用的模型标签，见 modelLabel
+  modelLabel: string;
+  startedAt: number;
+  // 连接成功的上游，故障转移后可能不是按模型路由到的第一个
+  upstream?: string;
+}
+
+type RequestOutcome = Pick<UsageRecord, "status" | "stopReason" | "errorType">;
+
+/**
+ * 请求结束：归还名额，把本次消耗的 token 计入客户端配额和全局的每分钟输出 token 额度，
+ * 并在用量账本中记录一行。
+ */
+async function finishRequest(
+  permits: RequestPermits,
+  requestId: string,
+  inputTokens: number,
+  outputTokens: number,
+  outcome: RequestOutcome,
+) {
+  permits.streamSlot.release();
+  permits.lease.release(inputTokens + outputTokens);
+  rateLimiter.recordOutputTokens(outputTokens);
+  const labels = { client: permits.client.label, model: permits.modelLabel };
+  if (inputTokens > 0) inputTokensTotal.inc(labels, inputTokens);
+  if (outputTokens > 0) outputTokensTotal.inc(labels, outputTokens);
+  await usageLedger.record({
+    timestamp: new Date().toISOString(),
+    requestId,
+    client: permits.client.label,
+    model: permits.model,
+    upstream: permits.upstream,
+    inputTokens,
+    outputTokens,
+    durationMs: Date.now() - permits.startedAt,
+    ...outcome,
+  });
+  await logRequest(requestId, "info", "Client usage recorded", {
+    client: permits.client.label,
+    inputTokens,
+    outputTokens,
+    ...outcome,
+  });
+}
+
+// 请求没有拿到上游输出就结束了：归还名额，不计 token；被取消时记为 cancelled，否则记下错误类型
+async function abandonRequest(permits: RequestPermits, requestId: string, error: unknown, cancelled: boolean) {
+  const outcome: RequestOutcome = cancelled
+    ? { status: "cancelled" }
+    : { status: "error", errorType: toProxyError(error).type };
+  await finishRequest(permits, requestId, 0, 0, outcome);
+}
+
+/**
+ * 读取上游 OpenAI SSE 流，逐字符交给 ToolifyParser 解析，
+ * 并把解析出的事件交给 ClaudeStream 转换为 Claude 事件。
+ * 流式与非流式请求共用这一段逻辑。
+ *
+ * 这里不会发出 end 事件：一次下游响应可能包含多轮上游请求（重新提示），
+ * 由调用方在最后一轮结束后再结束 ClaudeStream。返回本轮上游输出的原始文本。
+ */
+async function pumpUpstream(
+  upstreamRes: Response,
+  parser: ToolifyParser,
+  claudeStream: ClaudeStream,
+  requestId: string,
+  onFirstToken: () => void,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  const reader = upstreamRes.body!.getReader();
+  let sseBuffer = "";
+  let upstreamClosed = false;
+  let rawOutput = "";
+  // 收到第一个非空 delta 之前按首 token 超时计时，之后按相邻两次数据之间的空闲超时计时
+  const firstTokenDeadline = Date.now() + config.firstTokenTimeoutMs;
+  let receivedToken = false;
+
+  while (true) {
+    const { value, done } = receivedToken
+      ? await readWithTimeout(
+        reader,
+        config.idleTimeoutMs,
+        `Upstream stream was idle for more than ${config.idleTimeoutMs}ms`,
+      )
+      : await readWithTimeout(
+        reader,
+        config.firstTokenTimeoutMs > 0 ? Math.max(1, firstTokenDeadline - Date.now()) : 0,
+        `Upstream sent no tokens within ${config.firstTokenTimeoutMs}ms`,
+      );
+    if (done) break;
+    const text = decoder.decode(value, { stream: true });
+    // 这里的调试日志量非常大，如果使用 await 会严重拖慢流式转发
+    logRequest(requestId, "debug", "Upstream stream chunk", {
+      chunkPreview: text,
+      chunkLength: text.length,
+    });
+    sseBuffer += text;
+    while (true) {
+      const eventBoundary = sseBuffer.indexOf("\n\n");
+      if (eventBoundary === -1) break;
+      const rawEvent = sseBuffer.slice(0, eventBoundary);
+      sseBuffer = sseBuffer.slice(eventBoundary + 2);
+      const dataLines = rawEvent
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trim());
+      if (!dataLines.length) continue;
+      const payload = dataLines.join("\n");
+      if (payload === "[DONE]") {
+        upstreamClosed = true;
+        break;
+      }
+      try {
+        const json = JSON.parse(payload);
+        // 上游在流中途报错：交给调用方以 SSE error 事件告知客户端
+        const streamError = upstreamStreamError(json);
+        if (streamError) {
+          await logRequest(requestId, "error", "Upstream stream returned error payload", { payload: json });
+          await reader.cancel().catch(() => {});
+          throw streamError;
+        }
+        // 同样避免在解析后的调试日志上阻塞流式
+        logRequest(requestId, "debug", "Parsed upstream SSE event", {
+          fullEvent: json,
+          choices: json?.choices,
+        });
+        const delta = json?.choices?.[0]?.delta;
+        if (!receivedToken && delta && Object.entries(delta).some(([key, value]) => key !== "role" && value)) {
+          receivedToken = true;
+          onFirstToken();
+        }
+        const deltaText = extractDeltaText(delta);
+        logRequest(requestId, "debug", "Extracted delta text", {
+          deltaText,
+          deltaTextLength: deltaText.length,
+          rawDelta: delta,
+        });
+        if (deltaText) {
+          rawOutput += deltaText;
+          for (const char of deltaText) {
+            parser.feedChar(char);
+            await claudeStream.handleEvents(parser.consumeEvents());
+            if (parser.hasStopped()) break;
+          }
+        }
+        // 命中停止序列后不再需要上游后续的输出
+        if (parser.hasStopped()) {
+          await logRequest(requestId, "info", "Stop sequence matched, closing upstream stream");
+          await reader.cancel().catch(() => {});
+          upstreamClosed = true;
+          break;
+        }
+        // 原生 function calling：tool_calls 片段直接转换为 tool_use block
+        const toolCalls = delta?.tool_calls;
+        if (Array.isArray(toolCalls) && toolCalls.length) {
+          parser.flushText();
+          await claudeStream.handleEvents(parser.consumeEvents());
+          await claudeStream.handleEvents(toolCalls.map((toolCall: any, position: number) => ({
+            type: "tool_call_delta" as const,
+            delta: {
+              index: typeof toolCall?.index === "number" ? toolCall.index : position,
+              id: toolCall?.id,
+              name: toolCall?.function?.name,
+              arguments: toolCall?.function?.arguments ?? "",
+            },
+          })));
+        }
+        const finishReason = json?.choices?.[0]?.finish_reason;
+        if (typeof finishReason === "string") {
+          claudeStream.setUpstreamFinishReason(finishReason);
+        }
+      } catch (error) {
+        if (error instanceof ProxyError) throw error;
+        await logRequest(requestId, "warn", "Failed to parse upstream SSE payload", {
+          error: String(error),
+          payloadPreview: payload,
+        });
+      }
+    }
+    if (upstreamClosed) break;
+  }
+  parser.finish();
+  await claudeStream.handleEvents(parser.consumeEvents().filter((event) => event.type !== "end"));
+  return rawOutput;
+}
+
+interface ConversationPlan {
+  body: ClaudeRequest;
+  // 本次请求的输入 token 估算，每次向上游发送请求时计入每分钟输入 token 额度
+  inputTokens: number;
+  upstream: UpstreamConfig;
+  upstreamReq: OpenAIChatRequest;
+  triggerSignal?: string;
+  createParser: () => ToolifyParser;
+}
+
+interface RepairDecision {
+  reason: string;
+  instruction: string;
+}
+
+/**
+ * 判断本轮输出是否需要重新提示上游，需要时返回纠正指令：
+ * - 触发信号之后的工具调用无法解析（格式错误、未闭合或调用了不存在的工具）；
+ * - 工具参数未通过 schema 校验（INVALID_TOOL_CALL_POLICY=report）；
+ * - tool_choice 要求必须调用工具，但上游没有给出（符合要求的）工具调用。
+ */
+function decideRepair(plan: ConversationPlan, claudeStream: ClaudeStream): RepairDecision | undefined {
+  // 客户端要求的停止序列已经命中，本次响应到此为止
+  if (claudeStream.stoppedBySequence()) return undefined;
+  // 输出被 max_tokens 截断：以同样的 max_tokens 重新提示多半还会截断，直接以 max_tokens 结束让客户端知道
+  if (claudeStream.truncatedByLength()) return undefined;
+  const malformed = claudeStream.pendingMalformedToolCalls();
+  if (malformed.length && plan.triggerSignal) {
+    return {
+      reason: "malformed_tool_call",
+      instruction: buildMalformedToolCallReminder(
+        malformed,
+        (plan.body.tools ?? []).map((tool) => tool.name),
+        plan.triggerSignal,
+      ),
+    };
+  }
+  const invalidCalls = claudeStream.pendingInvalidToolCalls();
+  if (invalidCalls.length) {
+    return {
+      reason: "invalid_tool_arguments",
+      instruction: buildInvalidArgumentsReminder(invalidCalls, plan.triggerSignal),
+    };
+  }
+  if (requiresToolCall(plan.body.tool_choice) && claudeStream.toolCallCount() === 0) {
+    return {
+      reason: "missing_forced_tool_call",
+      instruction: buildToolChoiceReminder(plan.body.tool_choice!, plan.triggerSignal),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * 驱动一次下游响应：处理首个上游响应，并在需要时（见 decideRepair）重新提示上游。
+ * 所有轮次的输出都写入同一个 ClaudeStream，对客户端来说仍然是一条消息。
+ */
+async function runConversation(
+  plan: ConversationPlan,
+  first: UpstreamResponse,
+  claudeStream: ClaudeStream,
+  requestId: string,
+  signal: AbortSignal,
+) {
+  let { response: upstreamRes, sentAt } = first;
+  let upstreamReq = plan.upstreamReq;
+  for (let attempt = 0;; attempt++) {
+    const output = await pumpUpstream(upstreamRes, plan.createParser(), claudeStream, requestId, () => {
+      firstTokenLatency.observe((Date.now() - sentAt) / 1000, { upstream: plan.upstream.name });
+    });
+    signal.throwIfAborted();
+
+    const repair = decideRepair(plan, claudeStream);
+    if (!repair) break;
+    if (attempt >= config.maxToolRepairAttempts) {
+      await logRequest(requestId, "warn", "Tool call repair attempts exhausted, giving up", {
+        attempts: attempt + 1,
+        reason: repair.reason,
+      });
+      break;
+    }
+
+    upstreamReq = appendRepairTurn(upstreamReq, output, repair.instruction);
+    await logRequest(requestId, "info", "Re-prompting upstream to repair tool call", {
+      attempt: attempt + 1,
+      reason: repair.reason,
+      instruction: repair.instruction,
+      partialOutputPreview: output.slice(0, 500),
+    });
 
-function jsonResponse(body: unknown, status = 200) {
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: { "content-type": "application/json" },
+    // 重新提示失败时直接结束，暂存的输出仍会在 end 时发出，不让整个响应因此报错
+    try {
+      await rateLimiter.acquire(plan.inputTokens, signal);
+      ({ response: upstreamRes, sentAt } = await sendUpstream(upstreamReq, plan.upstream, requestId, signal));
+    } catch (error) {
+      if (signal.aborted) throw signal.reason;
+      await logRequest(requestId, "warn", "Upstream re-prompt failed", { error: String(error) });
+      break;
+    }
+    if (!upstreamRes.ok) {
+      await logRequest(requestId, "warn", "Upstream re-prompt returned non-success status", {
+        status: upstreamRes.status,
+        bodyPreview: await upstreamRes.text(),
+      });
+      break;
+    }
+    claudeStream.resetForRepair();
+  }
+  await claudeStream.handleEvents([{ type: "end" }]);
+}
+
+/**
+ * 针对某个上游构造请求：工具解析仅由是否传入 tools 决定，存在 tools 时启用工具协议，否则禁用。
+ * tool_choice=none 时不注入工具提示词；上游原生支持 function calling 时，
+ * tools 直接透传，不注入提示词也不解析 XML。
+ */
+function buildConversationPlan(body: ClaudeRequest, upstream: UpstreamConfig, inputTokens: number): ConversationPlan {
+  const hasTools = (body.tools ?? []).length > 0 && !toolsDisabled(body.tool_choice);
+  const promptTools = hasTools && !upstream.nativeTools ? body.tools ?? [] : [];
+  const triggerSignal = promptTools.length ? randomTriggerSignal() : undefined;
+  const parallelToolCalls = allowsParallelToolCalls(config.parallelToolCalls, body.tool_choice);
+  const openaiBase = mapClaudeToOpenAI(body, upstream, triggerSignal);
+  const injected = injectPrompt(openaiBase, promptTools, triggerSignal, {
+    parallelToolCalls,
+    toolChoice: body.tool_choice,
   });
+  const thinkingEnabled = !!body.thinking && body.thinking.type === "enabled";
+  return {
+    body,
+    inputTokens,
+    upstream,
+    upstreamReq: { ...openaiBase, messages: injected.messages },
+    triggerSignal: injected.triggerSignal,
+    createParser: () =>
+      new ToolifyParser(injected.triggerSignal, thinkingEnabled, {
+        parallelToolCalls,
+        tools: body.tools,
+        invalidToolCallPolicy: config.invalidToolCallPolicy,
+        reportMalformedToolCalls: config.maxToolRepairAttempts > 0,
+        stopSequences: validStopSequences(body.stop_sequences),
+      }),
+  };
+}
+
+interface UpstreamResponse {
+  response: Response;
+  // 发出请求的时间，用于计算首 token 耗时
+  sentAt: number;
 }
 
-function unauthorized() {
-  return jsonResponse({ error: "unauthorized" }, 401);
+// 发送上游请求（包括重试），并记录拿到响应头的耗时
+async function sendUpstream(
+  upstreamReq: OpenAIChatRequest,
+  upstream: UpstreamConfig,
+  requestId: string,
+  signal: AbortSignal,
+): Promise<UpstreamResponse> {
+  const sentAt = Date.now();
+  const response = await callUpstream(upstreamReq, upstream, requestId, config.upstreamRetry, signal);
+  upstreamLatency.observe((Date.now() - sentAt) / 1000, {
+    upstream: upstream.name,
+    status: String(response.status),
+  });
+  return { response, sentAt };
 }
 
-function validateClientKey(req: Request, config: ProxyConfig): boolean {
-  if (!config.clientApiKey) return true;
-  const header = req.headers.get("x-api-key") || req.headers.get("authorization");
-  if (!header) return false;
-  if (header.startsWith("Bearer ")) {
-    return header.slice(7) === config.clientApiKey;
+type UpstreamConnection = { plan: ConversationPlan; upstream: UpstreamResponse } | { error: Response };
+
+/**
+ * 依次尝试选中的上游及其备用上游，直到拿到成功的响应：
+ * - 熔断中的上游直接跳过；
+ * - 连接错误、超时以及 FAILOVER_STATUS_CODES 中的状态码记为失败并切换到下一个上游；
+ * - 其他非 2xx 状态码说明请求本身有问题，直接返回给客户端。
+ * 此时还没有向客户端写出任何内容，所以可以安全地切换。
+ * 请求被取消（signal）时直接抛出取消原因，不计入熔断。
+ */
+async function connectUpstream(
+  body: ClaudeRequest,
+  primary: UpstreamConfig,
+  requestId: string,
+  signal: AbortSignal,
+  inputTokens: number,
+): Promise<UpstreamConnection> {
+  let lastFailure: Record<string, unknown> | undefined;
+  let lastStatus: number | undefined;
+  // 限流按客户端请求计：故障切换到后备上游时不再重复占用额度
+  await rateLimiter.acquire(inputTokens, signal);
+  for (const upstream of upstreamCandidates(config, primary)) {
+    const breaker = upstreamHealth.breaker(upstream.name);
+    const plan = buildConversationPlan(body, upstream, inputTokens);
+    // 紧挨着发送前再占用 half_open 的探测名额；探测中途因取消等原因没有得出结果时在 finally 中归还
+    if (!breaker.allowRequest()) {
+      await logRequest(requestId, "warn", "Skipping upstream with open circuit breaker", {
+        upstream: upstream.name,
+      });
+      continue;
+    }
+    const probing = breaker.snapshot().state === "half_open";
+    try {
+      let sent: UpstreamResponse;
+      try {
+        sent = await sendUpstream(plan.upstreamReq, upstream, requestId, signal);
+      } catch (error) {
+        if (signal.aborted) throw signal.reason;
+        breaker.recordFailure(String(error));
+        lastFailure = { upstream: upstream.name, error: String(error) };
+        lastStatus = undefined;
+        await logRequest(requestId, "warn", "Upstream request failed, trying next upstream", lastFailure);
+        continue;
+      }
+      const { response } = sent;
+      await logRequest(requestId, "info", "Upstream responded", {
+        status: response.status,
+        upstream: upstream.name,
+        url: upstream.baseUrl,
+      });
+      if (response.ok) {
+        breaker.recordSuccess();
+        return { plan, upstream: sent };
+      }
+
+      const errorText = await response.text();
+      if (config.failoverStatusCodes.includes(response.status)) {
+        breaker.recordFailure(`HTTP ${response.status}`);
+        lastFailure = { upstream: upstream.name, status: response.status, body: errorText };
+        lastStatus = response.status;
+        await logRequest(requestId, "warn", "Upstream returned failover status, trying next upstream", lastFailure);
+        continue;
+      }
+      // 上游可达，只是拒绝了这个请求，不计入熔断
+      breaker.recordSuccess();
+      await logRequest(requestId, "warn", "Upstream returned non-success status", {
+        upstream: upstream.name,
+        status: response.status,
+        bodyPreview: errorText,
+      });
+      return {
+        error: errorResponse(
+          mapUpstreamStatus(response.status),
+          upstreamErrorMessage(response.status, errorText),
+          requestId,
+        ),
+      };
+    } finally {
+      if (probing) breaker.releaseProbe();
+    }
   }
-  return header === config.clientApiKey;
+
+  await logRequest(requestId, "error", "No upstream available", { model: body.model, lastFailure });
+  // 所有上游都失败（或都在熔断中）：最后一次是 429 时按限流报告，否则按过载报告，客户端会稍后重试
+  const message = lastStatus !== undefined
+    ? upstreamErrorMessage(lastStatus, String(lastFailure?.body ?? ""))
+    : lastFailure
+    ? `Upstream request failed: ${lastFailure.error}`
+    : "All upstreams are temporarily unavailable";
+  return {
+    error: errorResponse(lastStatus === 429 ? "rate_limit_error" : "overloaded_error", message, requestId),
+  };
 }
 
 async function handleMessages(req: Request, requestId: string) {
-  if (!validateClientKey(req, config)) {
-    return unauthorized();
+  const auth = await authenticateClient(req, requestId);
+  if ("error" in auth) {
+    return auth.error;
   }
+  const { client } = auth;
 
   let body: ClaudeRequest;
-  let rawBody = "";
   try {
-    rawBody = await req.text();
-    body = JSON.parse(rawBody);
+    body = await readClaudeRequest(req);
     await logRequest(requestId, "debug", "Received Claude request body", {
       rawPreview: body,
     });
-  } catch {
-    return jsonResponse({ error: "invalid JSON body" }, 400);
+  } catch (error) {
+    return exceptionResponse(error, requestId);
+  }
+
+  const admission = clientRegistry.admit(client);
+  if ("rejection" in admission) {
+    const { rejection } = admission;
+    await logRequest(requestId, "warn", "Client request rejected by quota", { client: client.label, ...rejection });
+    await closeRequestLog(requestId);
+    return errorResponse("rate_limit_error", rejection.message, requestId, {
+      "retry-after": String(rejection.retryAfterSeconds),
+    });
+  }
+  await logRequest(requestId, "info", "Client request admitted", { client: client.label, model: body.model });
+
+  // 客户端断开（req.signal 或下游流被取消）以及服务关闭都会中止上游请求，排队中的请求也会被移出队列
+  const clientAbort = new AbortController();
+  const signal = AbortSignal.any([clientAbort.signal, req.signal, shutdownController.signal]);
+
+  const permits: RequestPermits = {
+    client,
+    lease: admission.lease,
+    streamSlot: { release() {} },
+    model: body.model ?? "",
+    modelLabel: modelLabel(body.model),
+    startedAt: Date.now(),
+  };
+  try {
+    permits.streamSlot = await streamLimiter.acquire(signal);
+  } catch (error) {
+    await logRequest(requestId, "warn", "Request rejected while waiting for a stream slot", { error: String(error) });
+    await abandonRequest(permits, requestId, error, signal.aborted);
+    await closeRequestLog(requestId);
+    return exceptionResponse(error, requestId);
   }
 
   try {
@@ -83,115 +716,85 @@ async function handleMessages(req: Request, requestId: string) {
       output_tokens: tokenCount.output_tokens,
     });
 
-    // 工具解析仅由是否传入 tools 决定：存在 tools 时启用工具协议，否则禁用。
-    const hasTools = (body.tools ?? []).length > 0;
-    const triggerSignal = hasTools ? randomTriggerSignal() : undefined;
-    const openaiBase = mapClaudeToOpenAI(body, config, triggerSignal);
-    const injected = injectPrompt(openaiBase, body.tools ?? [], triggerSignal);
-    const upstreamReq = { ...openaiBase, messages: injected.messages };
-
-    await rateLimiter.acquire();
-    const upstreamRes = await callUpstream(upstreamReq, config, requestId);
-    await logRequest(requestId, "info", "Upstream responded", {
-      status: upstreamRes.status,
-      url: config.upstreamBaseUrl,
+    const primary = resolveUpstream(config, body.model);
+    await logRequest(requestId, "info", "Routing request to upstream", {
+      model: body.model,
+      upstream: primary.name,
     });
+    const inputTokens = tokenCount.input_tokens || tokenCount.token_count || tokenCount.tokens || 0;
+    const connected = await connectUpstream(body, primary, requestId, signal, inputTokens);
+    if ("error" in connected) {
+      const { error } = await connected.error.clone().json();
+      await abandonRequest(permits, requestId, new ProxyError(error.type, error.message), signal.aborted);
+      await closeRequestLog(requestId);
+      return connected.error;
+    }
+    const { plan, upstream } = connected;
+    permits.upstream = plan.upstream.name;
 
-    if (!upstreamRes.ok) {
-      const errorText = await upstreamRes.text();
-      await logRequest(requestId, "warn", "Upstream returned non-success status", {
-        status: upstreamRes.status,
-        bodyPreview: errorText,
+    const streamOptions = { toolChoice: body.tool_choice };
+
+    // 非流式请求：复用同一套解析/转换流程，只是把事件收集成一个完整的 Message
+    if (body.stream !== true) {
+      const collector = new MessageCollector();
+      const claudeStream = new ClaudeStream(collector, config, requestId, inputTokens, streamOptions);
+      await claudeStream.init();
+      await runConversation(plan, upstream, claudeStream, requestId, signal);
+      collector.close();
+      await logRequest(requestId, "info", "Completed non-streaming response", {
+        stopReason: collector.toMessage().stop_reason,
+        blockCount: collector.toMessage().content.length,
+      });
+      await finishRequest(permits, requestId, inputTokens, claudeStream.outputTokens(), {
+        status: "success",
+        stopReason: collector.toMessage().stop_reason ?? undefined,
       });
       await closeRequestLog(requestId);
-      return jsonResponse(
-        { error: "upstream_error", status: upstreamRes.status, body: errorText },
-        502,
-      );
+      return jsonResponse(collector.toMessage(), 200, requestId);
     }
 
+    let writer: SSEWriter | undefined;
     const stream = new ReadableStream<Uint8Array>({
       async start(controller) {
-        const writer = new SSEWriter(controller, requestId);
-        const claudeStream = new ClaudeStream(writer, config, requestId, tokenCount.input_tokens || tokenCount.token_count || tokenCount.tokens);
+        writer = new SSEWriter(controller, requestId, config.pingIntervalMs);
+        const claudeStream = new ClaudeStream(writer, config, requestId, inputTokens, streamOptions);
         // 发送 message_start 事件（完全按照官方格式）
         await claudeStream.init();
-        const thinkingEnabled = !!body.thinking && body.thinking.type === "enabled";
-        const parser = new ToolifyParser(injected.triggerSignal, thinkingEnabled);
-        const decoder = new TextDecoder();
-        const reader = upstreamRes.body!.getReader();
-        let sseBuffer = "";
-        let upstreamClosed = false;
 
+        let outcome: RequestOutcome;
         try {
-          while (true) {
-            const { value, done } = await reader.read();
-            if (done) break;
-            const text = decoder.decode(value, { stream: true });
-            // 这里的调试日志量非常大，如果使用 await 会严重拖慢流式转发
-            logRequest(requestId, "debug", "Upstream stream chunk", {
-              chunkPreview: text,
-              chunkLength: text.length,
-            });
-            sseBuffer += text;
-            while (true) {
-              const eventBoundary = sseBuffer.indexOf("\n\n");
-              if (eventBoundary === -1) break;
-              const rawEvent = sseBuffer.slice(0, eventBoundary);
-              sseBuffer = sseBuffer.slice(eventBoundary + 2);
-              const dataLines = rawEvent
-                .split("\n")
-                .map((line) => line.trim())
-                .filter((line) => line.startsWith("data:"))
-                .map((line) => line.slice(5).trim());
-              if (!dataLines.length) continue;
-              const payload = dataLines.join("\n");
-              if (payload === "[DONE]") {
-                upstreamClosed = true;
-                break;
-              }
-              try {
-                const json = JSON.parse(payload);
-                // 同样避免在解析后的调试日志上阻塞流式
-                logRequest(requestId, "debug", "Parsed upstream SSE event", {
-                  fullEvent: json,
-                  choices: json?.choices,
-                });
-                const delta = json?.choices?.[0]?.delta;
-                const deltaText = extractDeltaText(delta);
-                logRequest(requestId, "debug", "Extracted delta text", {
-                  deltaText,
-                  deltaTextLength: deltaText.length,
-                  rawDelta: delta,
-                });
-                if (deltaText) {
-                  for (const char of deltaText) {
-                    parser.feedChar(char);
-                    await claudeStream.handleEvents(parser.consumeEvents());
-                  }
-                }
-              } catch (error) {
-                await logRequest(requestId, "warn", "Failed to parse upstream SSE payload", {
-                  error: String(error),
-                  payloadPreview: payload,
-                });
-              }
-            }
-            if (upstreamClosed) break;
-          }
-          parser.finish();
-          await claudeStream.handleEvents(parser.consumeEvents());
+          await runConversation(plan, upstream, claudeStream, requestId, signal);
           await logRequest(requestId, "info", "Completed streaming response", {});
-          await closeRequestLog(requestId);
+          outcome = { status: "success", stopReason: claudeStream.stopReason() };
         } catch (error) {
-          await logRequest(requestId, "error", "Streaming failure", { error: String(error) });
-          await closeRequestLog(requestId);
-          controller.error(error);
-          return;
+          if (clientAbort.signal.aborted) {
+            await claudeStream.interrupt(false);
+            await logRequest(requestId, "info", "Client disconnected, upstream request aborted", {});
+            outcome = { status: "cancelled" };
+          } else {
+            // 响应头已经发出，只能在流内发送 error 事件，然后正常关闭连接
+            const proxyError = toProxyError(error);
+            await logRequest(requestId, "error", "Streaming failure", {
+              error: String(error),
+              errorType: proxyError.type,
+            });
+            // 先把已经收到的内容发出并关闭打开的 block，再发送 error 事件
+            await claudeStream.interrupt();
+            await writer.send({ event: "error", data: errorBody(proxyError.type, proxyError.message) }, true);
+            outcome = { status: "error", errorType: proxyError.type };
+          }
         } finally {
+          // 中途断开或出错的请求同样计入已经产生的输出 token
+          await finishRequest(permits, requestId, inputTokens, claudeStream.outputTokens(), outcome!);
+          await closeRequestLog(requestId);
           writer.close();
         }
       },
+      // 客户端取消（如 Claude Code 中按 Esc）：停止写出并中止上游请求
+      cancel(reason) {
+        writer?.cancel();
+        clientAbort.abort(reason);
+      },
     });
 
     return new Response(stream, {
@@ -200,58 +803,180 @@ async function handleMessages(req: Request, requestId: string) {
         "content-type": "text/event-stream",
         "cache-control": "no-cache",
         "connection": "keep-alive",
+        "request-id": requestId,
       },
     });
   } catch (error) {
-    await logRequest(requestId, "error", "Failed to process request", { error: String(error) });
+    if (signal.aborted) {
+      await logRequest(requestId, "info", "Request aborted before completion", { reason: String(signal.reason) });
+    } else if (error instanceof ProxyError && error.type === "rate_limit_error") {
+      await logRequest(requestId, "warn", "Request rejected by rate limiter", { error: error.message });
+    } else {
+      await logRequest(requestId, "error", "Failed to process request", { error: String(error) });
+    }
+    await abandonRequest(permits, requestId, error, signal.aborted);
     await closeRequestLog(requestId);
-    return jsonResponse({ error: "internal_error", details: String(error) }, 500);
+    return exceptionResponse(error, requestId);
   }
 }
 
 async function handleTokenCount(req: Request, requestId: string) {
-  if (!validateClientKey(req, config)) {
-    return unauthorized();
+  // 计数请求没有流式阶段，任何出口都要关闭请求日志，否则按请求打开的日志文件会一直占用
+  try {
+    const auth = await authenticateClient(req, requestId);
+    if ("error" in auth) {
+      return auth.error;
+    }
+
+    let body: ClaudeRequest;
+    try {
+      body = await readClaudeRequest(req);
+      await logRequest(requestId, "debug", "Received Claude token count request body", {
+        rawPreview: body,
+      });
+    } catch (error) {
+      return exceptionResponse(error, requestId);
+    }
+
+    try {
+      // 计算 token 数量
+      const tokenCount = await countTokens(body, config, requestId);
+      await logRequest(requestId, "info", "Token count calculated", {
+        input_tokens: tokenCount.input_tokens, // 使用最新官方 API 字段名
+        token_count: tokenCount.token_count, // 保持向后兼容
+        tokens: tokenCount.tokens, // 保持向后兼容
+        output_tokens: tokenCount.output_tokens,
+      });
+
+      return jsonResponse({
+        input_tokens: tokenCount.input_tokens, // 使用最新官方 API 字段名
+        token_count: tokenCount.token_count, // 保持向后兼容
+        tokens: tokenCount.tokens, // 保持向后兼容
+        output_tokens: tokenCount.output_tokens,
+      }, 200, requestId);
+    } catch (error) {
+      await logRequest(requestId, "error", "Failed to count tokens", { error: String(error) });
+      return exceptionResponse(error, requestId);
+    }
+  } finally {
+    closeRequestLog(requestId);
   }
+}
 
-  let body: ClaudeRequest;
-  let rawBody = "";
-  try {
-    rawBody = await req.text();
-    body = JSON.parse(rawBody);
-    await logRequest(requestId, "debug", "Received Claude token count request body", {
-      rawPreview: body,
-    });
-  } catch {
-    return jsonResponse({ error: "invalid JSON body" }, 400);
+// 各上游的熔断状态
+async function handleUpstreamStatus(req: Request) {
+  const auth = await authenticateClient(req);
+  if ("error" in auth) {
+    return auth.error;
   }
+  return jsonResponse({ upstreams: upstreamHealth.snapshot(config.upstreams.map((upstream) => upstream.name)) });
+}
 
+// 全局限流器的排队情况
+async function handleRateLimitStatus(req: Request) {
+  const auth = await authenticateClient(req);
+  if ("error" in auth) {
+    return auth.error;
+  }
+  return jsonResponse({
+    requests: {
+      queueLength: rateLimiter.getQueueLength(),
+      lastMinute: rateLimiter.getActiveRequestsCount(),
+    },
+    streams: {
+      active: streamLimiter.getActiveCount(),
+      queueLength: streamLimiter.getQueueLength(),
+    },
+  });
+}
+
+/**
+ * 按 日期 × 客户端 × 模型 汇总用量账本，可用 from / to（UTC 日期，YYYY-MM-DD，含首尾）、client、model 筛选。
+ * 管理员密钥可以查看所有客户端，其他密钥只能看到自己的用量。
+ */
+async function handleUsage(req: Request, url: URL) {
+  const auth = await authenticateClient(req);
+  if ("error" in auth) {
+    return auth.error;
+  }
+  const filter: UsageFilter = {};
+  for (const field of ["from", "to"] as const) {
+    const value = url.searchParams.get(field);
+    if (value === null) continue;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return errorResponse("invalid_request_error", `${field}: expected a date in YYYY-MM-DD format`);
+    }
+    filter[field] = value;
+  }
+  filter.model = url.searchParams.get("model") ?? undefined;
+  filter.client = url.searchParams.get("client") ?? undefined;
+  if (!auth.client.admin) {
+    if (filter.client && filter.client !== auth.client.label) {
+      return errorResponse("permission_error", "Only admin keys can read usage of other clients");
+    }
+    filter.client = auth.client.label;
+  }
   try {
-    // 计算 token 数量
-    const tokenCount = await countTokens(body, config, requestId);
-    await logRequest(requestId, "info", "Token count calculated", {
-      input_tokens: tokenCount.input_tokens, // 使用最新官方 API 字段名
-      token_count: tokenCount.token_count, // 保持向后兼容
-      tokens: tokenCount.tokens, // 保持向后兼容
-      output_tokens: tokenCount.output_tokens,
-    });
+    return jsonResponse(await usageLedger.summarize(filter));
+  } catch (error) {
+    log("error", "Failed to read usage ledger", { path: config.usageLedgerFile, error: String(error) });
+    return errorResponse("api_error", "Failed to read usage ledger");
+  }
+}
 
-    return jsonResponse({
-      input_tokens: tokenCount.input_tokens, // 使用最新官方 API 字段名
-      token_count: tokenCount.token_count, // 保持向后兼容
-      tokens: tokenCount.tokens, // 保持向后兼容
-      output_tokens: tokenCount.output_tokens,
-    });
+// 启动时从用量账本恢复本月的 token 用量，避免重启后日 / 月配额清零
+async function restoreClientUsage() {
+  const now = Date.now();
+  const from = `${new Date(now).toISOString().slice(0, 7)}-01`;
+  let restored = 0;
+  try {
+    for await (const record of usageLedger.records({ from })) {
+      clientRegistry.addUsage(record.client, record.inputTokens + record.outputTokens, Date.parse(record.timestamp), now);
+      restored++;
+    }
   } catch (error) {
-    await logRequest(requestId, "error", "Failed to count tokens", { error: String(error) });
-    await closeRequestLog(requestId);
-    return jsonResponse({ error: "token_count_error", details: String(error) }, 500);
+    log("warn", "Failed to restore client usage from ledger", { path: config.usageLedgerFile, error: String(error) });
+    return;
+  }
+  if (restored) log("info", "Restored client usage from ledger", { path: config.usageLedgerFile, records: restored });
+}
+
+// Prometheus 文本格式的指标
+async function handleMetrics(req: Request) {
+  const auth = await authenticateClient(req);
+  if ("error" in auth) {
+    return auth.error;
   }
+  return new Response(metrics.render(), {
+    headers: { "content-type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
 }
 
+// 指标中的 route 标签只使用已知路径，避免任意路径产生无限多的序列
+const KNOWN_ROUTES = new Set([
+  "/",
+  "/healthz",
+  "/metrics",
+  "/v1/upstreams",
+  "/v1/rate-limits",
+  "/v1/usage",
+  "/v1/messages",
+  "/v1/messages/count_tokens",
+]);
+
 // 导出 handler 函数供 deploy.ts 使用
-export const handler = (req: Request) => {
+export const handler = async (req: Request) => {
   const url = new URL(req.url);
+  const response = await route(req, url);
+  requestsTotal.inc({
+    route: KNOWN_ROUTES.has(url.pathname) ? url.pathname : "other",
+    status: String(response.status),
+    model: requestModels.get(req) ?? "other",
+  });
+  return response;
+};
+
+function route(req: Request, url: URL): Response | Promise<Response> {
 
   if (req.method === "GET" && url.pathname === "/") {
     const html = `<!DOCTYPE html>
@@ -274,6 +999,22 @@ export const handler = (req: Request) => {
     return jsonResponse({ status: "ok" });
   }
 
+  if (req.method === "GET" && url.pathname === "/v1/upstreams") {
+    return handleUpstreamStatus(req);
+  }
+
+  if (req.method === "GET" && url.pathname === "/v1/rate-limits") {
+    return handleRateLimitStatus(req);
+  }
+
+  if (req.method === "GET" && url.pathname === "/v1/usage") {
+    return handleUsage(req, url);
+  }
+
+  if (req.method === "GET" && url.pathname === "/metrics") {
+    return handleMetrics(req);
+  }
+
   if (req.method === "OPTIONS") {
     return new Response(null, {
       headers: {
@@ -297,10 +1038,29 @@ export const handler = (req: Request) => {
   }
 
   console.log(`404 - ${req.method} ${url.pathname}`);
-  return new Response("Not Found", { status: 404 });
-};
+  return errorResponse("not_found_error", `${req.method} ${url.pathname} not found`);
+}
 
 // 如果是直接运行此文件（而不是被导入），则启动服务器
 if (import.meta.main) {
-  serve(handler, config.autoPort ? undefined : { hostname: config.host, port: config.port });
+  // 收到退出信号时停止接收新连接，并中止所有进行中的上游请求
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    try {
+      Deno.addSignalListener(signal, () => {
+        log("info", "Shutting down, aborting in-flight upstream requests", { signal });
+        shutdownController.abort(new ProxyError("overloaded_error", "Proxy server is shutting down"));
+      });
+    } catch {
+      // Windows 不支持 SIGTERM
+    }
+  }
+  const signal = shutdownController.signal;
+  const configFile = Deno.env.get("CONFIG_FILE");
+  if (configFile) {
+    watchConfigFile(configFile, applyConfig, signal).catch((error) => {
+      log("error", "Config file watcher stopped, hot reload is disabled", { path: configFile, error: String(error) });
+    });
+  }
+  await restoreClientUsage();
+  serve(handler, config.autoPort ? { signal } : { hostname: config.host, port: config.port, signal });
 }
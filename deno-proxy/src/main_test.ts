@@ -0,0 +1,26 @@
+import { RequestDirSink, setLogSinks } from "./logging.ts";
+import { handler } from "./main.ts";
+
+Deno.test("count_tokens closes its request log", async () => {
+  const dir = await Deno.makeTempDir();
+  const sink = new RequestDirSink(dir, "text", 0, 0);
+  setLogSinks([], [sink]);
+  try {
+    const response = await handler(
+      new Request("http://localhost/v1/messages/count_tokens", {
+        method: "POST",
+        body: JSON.stringify({ model: "claude-test", messages: [{ role: "user", content: "hello" }] }),
+      }),
+    );
+    await response.body?.cancel();
+    if (response.status !== 200) throw new Error(`Unexpected status: ${response.status}`);
+    if (sink.openRequestCount() !== 0) {
+      throw new Error(`Request logs left open: ${sink.openRequestCount()}`);
+    }
+  } finally {
+    setLogSinks([], []);
+    // 等待 closeRequest 中异步的文件关闭完成
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,102 @@
+import { ClaudeContentBlock, ClaudeMessageResponse, ClaudeToolUseBlock } from "./types.ts";
+import { EventSink, SSEEvent } from "./sse.ts";
+import { log } from "./logging.ts";
+
+/**
+ * 非流式请求使用的事件收集器：
+ * 接收 ClaudeStream 生成的 SSE 事件，并把它们还原成一个完整的 Anthropic Message。
+ * 这样流式与非流式共用同一套 ToolifyParser/ClaudeStream 处理逻辑。
+ */
+export class MessageCollector implements EventSink {
+  private message: ClaudeMessageResponse = {
+    id: "",
+    type: "message",
+    role: "assistant",
+    model: "claude-proxy",
+    content: [],
+    stop_reason: null,
+    stop_sequence: null,
+    usage: { input_tokens: 0, output_tokens: 0 },
+  };
+  // tool_use 的参数以 input_json_delta 片段形式到达，按 block index 暂存
+  private partialJson = new Map<number, string>();
+  private blocks = new Map<number, ClaudeContentBlock>();
+  private closed = false;
+
+  send(event: SSEEvent, _critical = false): Promise<boolean> {
+    if (this.closed) return Promise.resolve(false);
+    const data = event.data as Record<string, any>;
+    switch (data?.type) {
+      case "message_start": {
+        const message = data.message ?? {};
+        this.message.id = message.id ?? this.message.id;
+        this.message.model = message.model ?? this.message.model;
+        this.message.usage.input_tokens = message.usage?.input_tokens ?? 0;
+        break;
+      }
+      case "content_block_start": {
+        // 复制一份，避免后续累加时修改到发送方持有的对象
+        this.blocks.set(data.index, { ...data.content_block });
+        break;
+      }
+      case "content_block_delta": {
+        const block = this.blocks.get(data.index);
+        const delta = data.delta ?? {};
+        if (!block) break;
+        if (delta.type === "text_delta" && block.type === "text") {
+          block.text += delta.text ?? "";
+        } else if (delta.type === "thinking_delta" && block.type === "thinking") {
+          block.thinking += delta.thinking ?? "";
+        } else if (delta.type === "input_json_delta" && block.type === "tool_use") {
+          this.partialJson.set(
+            data.index,
+            (this.partialJson.get(data.index) ?? "") + (delta.partial_json ?? ""),
+          );
+        }
+        break;
+      }
+      case "content_block_stop": {
+        const block = this.blocks.get(data.index);
+        if (!block) break;
+        if (block.type === "tool_use") {
+          block.input = this.parseToolInput(block, this.partialJson.get(data.index));
+          this.partialJson.delete(data.index);
+        }
+        this.message.content.push(block);
+        this.blocks.delete(data.index);
+        break;
+      }
+      case "message_delta": {
+        this.message.stop_reason = data.delta?.stop_reason ?? null;
+        this.message.stop_sequence = data.delta?.stop_sequence ?? null;
+        this.message.usage.output_tokens = data.usage?.output_tokens ?? 0;
+        break;
+      }
+    }
+    return Promise.resolve(true);
+  }
+
+  // 参数 JSON 理论上总是完整的；万一片段拼接出错也不能让整个响应失败，记录原文后退回空参数
+  private parseToolInput(block: ClaudeToolUseBlock, json: string | undefined): Record<string, unknown> {
+    if (!json) return {};
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      log("warn", "Failed to parse tool_use input JSON", {
+        tool: block.name,
+        id: block.id,
+        json,
+        error: String(error),
+      });
+      return {};
+    }
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  toMessage(): ClaudeMessageResponse {
+    return this.message;
+  }
+}
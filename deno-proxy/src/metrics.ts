@@ -0,0 +1,152 @@
+/**
+ * 最小化的 Prometheus 指标实现（文本格式 0.0.4）：计数器、直方图，以及在抓取时读取当前值的仪表。
+ * 各模块在模块顶层通过 metrics 注册自己的指标，/metrics 端点输出 metrics.render() 的结果。
+ */
+
+export type MetricLabels = Record<string, string>;
+
+// 标签按名字排序后序列化，作为同一指标内不同序列的键
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(labels[name])}"`)
+    .join(",");
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replaceAll("\\", "\\\\").replaceAll('"', '\\"').replaceAll("\n", "\\n");
+}
+
+function series(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${Number.isFinite(value) ? value : value > 0 ? "+Inf" : "-Inf"}`;
+}
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: "counter" | "gauge" | "histogram";
+  samples(): string[];
+}
+
+export class Counter implements Metric {
+  readonly type = "counter";
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, value = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  samples(): string[] {
+    return [...this.values].map(([key, value]) => series(this.name, key, value));
+  }
+}
+
+// 仪表的值在抓取时由 collect 计算，适合队列长度、进行中的流等已经在别处维护的状态
+export class Gauge implements Metric {
+  readonly type = "gauge";
+
+  constructor(readonly name: string, readonly help: string, public collect: () => number) {}
+
+  samples(): string[] {
+    return [series(this.name, "", this.collect())];
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  // 与 buckets 一一对应的非累积计数，输出时再累加
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram implements Metric {
+  readonly type = "histogram";
+  private values = new Map<string, HistogramSeries>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {}
+
+  observe(value: number, labels: MetricLabels = {}) {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index !== -1) entry.counts[index]++;
+    entry.sum += value;
+    entry.count++;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const [key, entry] of this.values) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += entry.counts[index];
+        lines.push(series(`${this.name}_bucket`, labelKey({ ...entry.labels, le: String(bound) }), cumulative));
+      });
+      lines.push(series(`${this.name}_bucket`, labelKey({ ...entry.labels, le: "+Inf" }), entry.count));
+      lines.push(series(`${this.name}_sum`, key, entry.sum));
+      lines.push(series(`${this.name}_count`, key, entry.count));
+    }
+    return lines;
+  }
+}
+
+// 秒级耗时的默认分桶，覆盖从几十毫秒的首字节到数分钟的长输出
+export const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+/**
+ * 指标注册表。同名指标只注册一次：模块被重复加载时返回已有的计数器 / 直方图，
+ * 仪表则替换为新的 collect（例如配置热加载后限流器被重建）。
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    const existing = this.metrics.get(name);
+    if (existing instanceof Counter) return existing;
+    const counter = new Counter(name, help);
+    this.metrics.set(name, counter);
+    return counter;
+  }
+
+  histogram(name: string, help: string, buckets = LATENCY_BUCKETS): Histogram {
+    const existing = this.metrics.get(name);
+    if (existing instanceof Histogram) return existing;
+    const histogram = new Histogram(name, help, buckets);
+    this.metrics.set(name, histogram);
+    return histogram;
+  }
+
+  gauge(name: string, help: string, collect: () => number): Gauge {
+    const existing = this.metrics.get(name);
+    if (existing instanceof Gauge) {
+      existing.collect = collect;
+      return existing;
+    }
+    const gauge = new Gauge(name, help, collect);
+    this.metrics.set(name, gauge);
+    return gauge;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.samples());
+    }
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+export const metrics = new MetricsRegistry();
@@ -0,0 +1,55 @@
+import { metrics, MetricsRegistry } from "./metrics.ts";
+import { ToolifyParser } from "./parser.ts";
+
+Deno.test("MetricsRegistry renders counters, gauges and cumulative histogram buckets", () => {
+  const registry = new MetricsRegistry();
+  const requests = registry.counter("test_requests_total", "Requests");
+  requests.inc({ route: "/v1/messages", status: "200" });
+  requests.inc({ status: "200", route: "/v1/messages" }, 2);
+  requests.inc({ route: 'a"b\\c' });
+  registry.gauge("test_queue_length", "Queue", () => 3);
+  const latency = registry.histogram("test_latency_seconds", "Latency", [0.1, 1]);
+  latency.observe(0.05);
+  latency.observe(0.5);
+  latency.observe(5);
+
+  const expected = [
+    "# HELP test_requests_total Requests",
+    "# TYPE test_requests_total counter",
+    'test_requests_total{route="/v1/messages",status="200"} 3',
+    'test_requests_total{route="a\\"b\\\\c"} 1',
+    "# HELP test_queue_length Queue",
+    "# TYPE test_queue_length gauge",
+    "test_queue_length 3",
+    "# HELP test_latency_seconds Latency",
+    "# TYPE test_latency_seconds histogram",
+    'test_latency_seconds_bucket{le="0.1"} 1',
+    'test_latency_seconds_bucket{le="1"} 2',
+    'test_latency_seconds_bucket{le="+Inf"} 3',
+    "test_latency_seconds_sum 5.55",
+    "test_latency_seconds_count 3",
+    "",
+  ].join("\n");
+  const rendered = registry.render();
+  if (rendered !== expected) {
+    throw new Error(`Unexpected exposition:\n${rendered}`);
+  }
+  if (registry.counter("test_requests_total", "Requests") !== requests) {
+    throw new Error("Registering a counter twice should return the existing one");
+  }
+});
+
+Deno.test("ToolifyParser counts emitted tool calls and trigger-without-invoke fallbacks", () => {
+  const toolCalls = metrics.counter("proxy_tool_calls_total", "");
+  const fallbacks = metrics.counter("proxy_trigger_without_invoke_total", "");
+  const before = [toolCalls.get(), fallbacks.get()];
+  for (const text of ['<<T>><invoke name="Read"></invoke>', "<<T>> no invoke here"]) {
+    const parser = new ToolifyParser("<<T>>");
+    for (const char of text) parser.feedChar(char);
+    parser.finish();
+  }
+  const after = [toolCalls.get() - before[0], fallbacks.get() - before[1]];
+  if (JSON.stringify(after) !== "[1,1]") {
+    throw new Error(`Unexpected counter increments: ${JSON.stringify(after)}`);
+  }
+});
@@ -1,8 +1,20 @@
-import { ParsedInvokeCall, ParserEvent } from "./types.ts";
-import { SSEWriter } from "./sse.ts";
+import {
+  ClaudeStopReason,
+  ClaudeToolChoice,
+  ParsedInvokeCall,
+  ParserEvent,
+  ToolArgumentIssue,
+  ToolCallDelta,
+} from "./types.ts";
+import { EventSink } from "./sse.ts";
 import { TextAggregator } from "./aggregator.ts";
 import { ProxyConfig } from "./config.ts";
 import { countTokensWithTiktoken } from "./tiktoken.ts";
+import { logRequest } from "./logging.ts";
+import { metrics } from "./metrics.ts";
+import { allowsParallelToolCalls, forcedToolName, requiresToolCall, toolsDisabled } from "./tool_choice.ts";
+
+const thinkingBlocks = metrics.counter("proxy_thinking_blocks_total", "Thinking content blocks sent to clients");
 
 function generateToolId(): string {
   // 生成随机 ID：toolu_ + 12位随机字符
@@ -17,29 +29,80 @@ function generateToolId(): string {
 interface StreamContext {
   requestId: string;
   aggregator: TextAggregator;
-  writer: SSEWriter;
+  // 思考内容按字符流式到达，同样先聚合再以 thinking_delta 发出
+  thinkingAggregator: TextAggregator;
+  writer: EventSink;
   nextBlockIndex: number;
   textBlockOpen: boolean;
   thinkingBlockOpen: boolean;
   finished: boolean;
   totalOutputTokens: number;
+  // 原生 function calling：上游 tool_calls index → Claude content block index
+  nativeToolBlocks: Map<number, number>;
+  openToolBlockIndex?: number;
+  // 被 tool_choice 规则拒绝的上游 tool_calls index，后续片段一并忽略
+  droppedToolIndexes: Set<number>;
+  // 上游最后报告的 finish_reason（stop / length / tool_calls 等）
+  upstreamFinishReason?: string;
+  // 命中的 stop_sequences 之一，命中时 stop_reason 为 stop_sequence
+  stopSequence?: string;
+  // 已发出的 tool_use block 数量（提示词注入与原生 function calling 两种方式都计入）
+  toolCallCount: number;
+  // 强制工具调用时暂存的文本：出现工具调用则丢弃，最终没有工具调用时再发出
+  heldText: string;
+  // 参数校验失败、等待重新提示上游修正的工具调用
+  invalidToolCalls: InvalidToolCall[];
+  // 触发信号之后无法识别的工具调用输出，等待重新提示上游修正
+  malformedToolCalls: MalformedToolCall[];
+}
+
+export interface InvalidToolCall {
+  call: ParsedInvokeCall;
+  issues: ToolArgumentIssue[];
+}
+
+export interface MalformedToolCall {
+  raw: string;
+  reason: string;
+}
+
+export interface ClaudeStreamOptions {
+  toolChoice?: ClaudeToolChoice;
 }
 
 export class ClaudeStream {
   private context: StreamContext;
   private tokenMultiplier: number;
+  private toolChoice?: ClaudeToolChoice;
 
-  constructor(private writer: SSEWriter, config: ProxyConfig, requestId: string, inputTokens: number = 0) {
+  constructor(
+    private writer: EventSink,
+    config: ProxyConfig,
+    requestId: string,
+    inputTokens: number = 0,
+    options: ClaudeStreamOptions = {},
+  ) {
     this.context = {
       requestId,
       writer,
       aggregator: new TextAggregator(config.aggregationIntervalMs, async (text) => await this.flushText(text)),
+      thinkingAggregator: new TextAggregator(
+        config.aggregationIntervalMs,
+        async (thinking) => await this.emitThinking(thinking),
+      ),
       nextBlockIndex: 0,
       textBlockOpen: false,
       thinkingBlockOpen: false,
       finished: false,
       totalOutputTokens: 0,
+      nativeToolBlocks: new Map(),
+      droppedToolIndexes: new Set(),
+      toolCallCount: 0,
+      heldText: "",
+      invalidToolCalls: [],
+      malformedToolCalls: [],
     };
+    this.toolChoice = options.toolChoice;
     // 对 tokenMultiplier 做防御性处理，避免后续出现 NaN/Infinity
     this.tokenMultiplier = Number.isFinite(config.tokenMultiplier) && config.tokenMultiplier > 0
       ? config.tokenMultiplier
@@ -75,32 +138,145 @@ export class ClaudeStream {
   async handleEvents(events: ParserEvent[]) {
     for (const event of events) {
       if (event.type === "text") {
-        // 一旦开始输出可见文本，就不应该再继续向 thinking block 写入
-        // 确保任何打开的 thinking block 在进入文本阶段之前先关闭
-        if (this.context.thinkingBlockOpen) {
-          await this.endThinkingBlock();
+        // tool_choice 要求必须调用工具时，Anthropic 不会在工具调用前输出文本，这里先暂存
+        if (requiresToolCall(this.toolChoice)) {
+          this.context.heldText += event.content;
+          continue;
         }
+        // 一旦开始输出可见文本，就不应该再继续向 thinking block 写入
+        // 确保聚合中的思考内容已发出、thinking block 在进入文本阶段之前先关闭
+        await this.endThinkingBlock();
         this.context.aggregator.add(event.content);
       } else if (event.type === "thinking") {
         // 思考内容前先把已有文本内容刷完并关闭 text block，避免 block 交叉复用 index
         await this.context.aggregator.flushAsync();
         await this.endTextBlock();
-        await this.emitThinking(event.content);
+        this.context.thinkingAggregator.add(event.content);
       } else if (event.type === "tool_call") {
         // 工具调用前需要关闭所有打开的内容块（text/thinking），
         // 保证 tool_use block 的 index 不会和之前 block 复用
         await this.context.aggregator.flushAsync();
         await this.endTextBlock();
         await this.endThinkingBlock();
+        if (!(await this.acceptToolCall(event.call.name))) continue;
         await this.emitToolCall(event.call);
+      } else if (event.type === "invalid_tool_call") {
+        // 先不发给客户端，由调用方决定是重新提示上游还是最终原样发出
+        this.context.invalidToolCalls.push({ call: event.call, issues: event.issues });
+      } else if (event.type === "malformed_tool_call") {
+        // 同样先暂存，修正次数用尽后再作为文本发出
+        this.context.malformedToolCalls.push({ raw: event.raw, reason: event.reason });
+      } else if (event.type === "stop_sequence") {
+        this.setStopSequence(event.sequence);
+      } else if (event.type === "tool_call_delta") {
+        await this.context.aggregator.flushAsync();
+        await this.endTextBlock();
+        await this.endThinkingBlock();
+        await this.emitToolCallDelta(event.delta);
       } else if (event.type === "end") {
         await this.finish();
       }
     }
   }
 
+  // 记录上游的 finish_reason，用于在结束时计算 stop_reason
+  setUpstreamFinishReason(reason: string) {
+    this.context.upstreamFinishReason = reason;
+  }
+
+  // 记录命中的停止序列
+  setStopSequence(sequence: string) {
+    this.context.stopSequence = sequence;
+  }
+
+  // 目前为止的输出 token 数（已应用 token 倍数），用于 message_delta 以及客户端用量统计
+  outputTokens(): number {
+    // 应用 token 倍数到输出 token，防止出现 NaN/0
+    const raw = this.context.totalOutputTokens * this.tokenMultiplier;
+    return Math.max(
+      1,
+      Math.ceil(
+        Number.isFinite(raw)
+          ? raw
+          : this.context.totalOutputTokens || 1,
+      ),
+    );
+  }
+
+  stoppedBySequence(): boolean {
+    return this.context.stopSequence !== undefined;
+  }
+
+  // 上游因 max_tokens 截断了输出（finish_reason=length）
+  truncatedByLength(): boolean {
+    return this.context.upstreamFinishReason === "length";
+  }
+
+  /**
+   * 按 Anthropic 的语义计算 stop_reason：
+   * 命中停止序列 > 发出过 tool_use block > 上游因长度截断（finish_reason=length） > 正常结束。
+   */
+  stopReason(): ClaudeStopReason {
+    if (this.context.stopSequence !== undefined) return "stop_sequence";
+    if (this.context.toolCallCount > 0) return "tool_use";
+    if (this.context.upstreamFinishReason === "length") return "max_tokens";
+    return "end_turn";
+  }
+
+  // 已经发出的 tool_use block 数量
+  toolCallCount(): number {
+    return this.context.toolCallCount;
+  }
+
+  // 本轮中参数校验失败的工具调用
+  pendingInvalidToolCalls(): InvalidToolCall[] {
+    return [...this.context.invalidToolCalls];
+  }
+
+  // 本轮中无法解析的工具调用
+  pendingMalformedToolCalls(): MalformedToolCall[] {
+    return [...this.context.malformedToolCalls];
+  }
+
+  /**
+   * 重新提示上游之前调用：上一轮暂存的文本已作为上下文发回上游，不再发给客户端；
+   * 无效或无法解析的工具调用会在下一轮重新生成。
+   */
+  resetForRepair() {
+    this.context.heldText = "";
+    this.context.invalidToolCalls = [];
+    this.context.malformedToolCalls = [];
+  }
+
+  /**
+   * 按 tool_choice 规则检查工具调用：
+   * - none 时拒绝所有工具调用；
+   * - tool 时只接受指定名称的工具；
+   * - disable_parallel_tool_use 时只接受第一个工具调用。
+   */
+  private async acceptToolCall(name: string | undefined): Promise<boolean> {
+    let reason: string | undefined;
+    const forcedName = forcedToolName(this.toolChoice);
+    if (toolsDisabled(this.toolChoice)) {
+      reason = "tool_choice is none";
+    } else if (forcedName && name !== forcedName) {
+      reason = `tool_choice requires ${forcedName}`;
+    } else if (this.context.toolCallCount > 0 && !allowsParallelToolCalls(true, this.toolChoice)) {
+      reason = "parallel tool use disabled";
+    }
+    if (reason) {
+      await logRequest(this.context.requestId, "warn", "Dropping tool call rejected by tool_choice", {
+        toolName: name,
+        reason,
+      });
+      return false;
+    }
+    return true;
+  }
+
   private async ensureTextBlock() {
     if (!this.context.textBlockOpen) {
+      await this.endToolBlock();
       const index = this.context.nextBlockIndex++;
       this.context.textBlockOpen = true;
       await this.writer.send({
@@ -142,8 +318,10 @@ export class ClaudeStream {
 
   private async ensureThinkingBlock() {
     if (!this.context.thinkingBlockOpen) {
+      await this.endToolBlock();
       const index = this.context.nextBlockIndex++;
       this.context.thinkingBlockOpen = true;
+      thinkingBlocks.inc();
       await this.writer.send({
         event: "content_block_start",
         data: {
@@ -156,6 +334,8 @@ export class ClaudeStream {
   }
 
   private async endThinkingBlock() {
+    // 先发出尚在聚合中的思考内容，再关闭 thinking block
+    await this.context.thinkingAggregator.flushAsync();
     if (!this.context.thinkingBlockOpen) return;
     this.context.thinkingBlockOpen = false;
     const index = this.context.nextBlockIndex - 1;
@@ -183,6 +363,8 @@ export class ClaudeStream {
 
   private async emitToolCall(call: ParsedInvokeCall) {
     await this.endTextBlock();
+    await this.endToolBlock();
+    this.context.toolCallCount++;
     const index = this.context.nextBlockIndex++;
     const toolId = generateToolId();
     await this.writer.send({
@@ -213,31 +395,125 @@ export class ClaudeStream {
     }, true);
   }
 
+  /**
+   * 原生 function calling 的增量工具调用：
+   * 同一个上游 index 的第一个片段打开 tool_use block，后续参数片段作为 input_json_delta 发出。
+   * Claude 的 content block 不能交叉，因此新的工具调用开始时会先关闭上一个。
+   */
+  private async emitToolCallDelta(delta: ToolCallDelta) {
+    if (this.context.droppedToolIndexes.has(delta.index)) return;
+    let index = this.context.nativeToolBlocks.get(delta.index);
+    if (index === undefined) {
+      if (!(await this.acceptToolCall(delta.name))) {
+        this.context.droppedToolIndexes.add(delta.index);
+        return;
+      }
+      await this.endToolBlock();
+      this.context.toolCallCount++;
+      index = this.context.nextBlockIndex++;
+      this.context.nativeToolBlocks.set(delta.index, index);
+      this.context.openToolBlockIndex = index;
+      await this.writer.send({
+        event: "content_block_start",
+        data: {
+          type: "content_block_start",
+          index,
+          content_block: {
+            type: "tool_use",
+            id: delta.id || generateToolId(),
+            name: delta.name ?? "",
+            input: {},
+          },
+        },
+      }, true);
+    }
+    if (index !== this.context.openToolBlockIndex) {
+      await logRequest(this.context.requestId, "warn", "Dropping arguments for already closed tool call", {
+        upstreamIndex: delta.index,
+        argumentsPreview: delta.arguments.slice(0, 200),
+      });
+      return;
+    }
+    if (!delta.arguments) return;
+    this.context.totalOutputTokens += countTokensWithTiktoken(delta.arguments, "cl100k_base");
+    await this.writer.send({
+      event: "content_block_delta",
+      data: {
+        type: "content_block_delta",
+        index,
+        delta: { type: "input_json_delta", partial_json: delta.arguments },
+      },
+    }, true);
+  }
+
+  private async endToolBlock() {
+    const index = this.context.openToolBlockIndex;
+    if (index === undefined) return;
+    this.context.openToolBlockIndex = undefined;
+    await this.writer.send({
+      event: "content_block_stop",
+      data: { type: "content_block_stop", index },
+    }, true);
+  }
+
+  /**
+   * 流在中途失败时调用（发送 error 事件之前）：把聚合中的文本与思考内容发出并关闭打开的 block，
+   * 之后不再发出 message_delta / message_stop。flush 为 false（客户端已断开）时只丢弃内容、取消定时器，
+   * 避免定时器在连接关闭后继续写入。
+   */
+  async interrupt(flush = true) {
+    if (this.context.finished) return;
+    this.context.finished = true;
+    this.context.heldText = "";
+    if (!flush) {
+      this.context.aggregator.discard();
+      this.context.thinkingAggregator.discard();
+      return;
+    }
+    await this.context.aggregator.flushAsync();
+    await this.endTextBlock();
+    await this.endThinkingBlock();
+    await this.endToolBlock();
+  }
+
   private async finish() {
     if (this.context.finished) return;
     this.context.finished = true;
+    // 强制工具调用最终仍未出现时，把暂存的文本发出，避免客户端拿到空响应
+    if (this.context.heldText && this.context.toolCallCount === 0) {
+      await this.endThinkingBlock();
+      await this.endToolBlock();
+      this.context.aggregator.add(this.context.heldText);
+    }
+    this.context.heldText = "";
+    // 修正次数用尽后仍然无效的工具调用按原样发出，由客户端的工具执行环节报告错误
+    for (const invalid of this.context.invalidToolCalls.splice(0)) {
+      await this.context.aggregator.flushAsync();
+      await this.endTextBlock();
+      await this.endThinkingBlock();
+      if (!(await this.acceptToolCall(invalid.call.name))) continue;
+      await this.emitToolCall(invalid.call);
+    }
+    // 无法解析的工具调用按原样作为文本发出，与未开启修正时的行为一致
+    for (const malformed of this.context.malformedToolCalls.splice(0)) {
+      await this.endThinkingBlock();
+      await this.endToolBlock();
+      this.context.aggregator.add(malformed.raw);
+    }
     await this.context.aggregator.flushAsync();
     await this.endTextBlock();
     await this.endThinkingBlock();
+    await this.endToolBlock();
     
-    // 应用 token 倍数到输出 token，防止出现 NaN/0
-    const raw = this.context.totalOutputTokens * this.tokenMultiplier;
-    const adjustedOutputTokens = Math.max(
-      1,
-      Math.ceil(
-        Number.isFinite(raw)
-          ? raw
-          : this.context.totalOutputTokens || 1,
-      ),
-    );
-    
+    const adjustedOutputTokens = this.outputTokens();
+
     await this.writer.send({
       event: "message_delta",
       data: {
         type: "message_delta",
         delta: {
-          stop_reason: "end_turn",
-          stop_sequence: null,
+          stop_reason: this.stopReason(),
+          stop_sequence: this.context.stopSequence ?? null,
         },
         usage: {
           output_tokens: adjustedOutputTokens,
@@ -0,0 +1,46 @@
+import { ProxyConfig } from "./config.ts";
+import { MessageCollector } from "./message_collector.ts";
+import { ClaudeStream } from "./openai_to_claude.ts";
+import { ParserEvent } from "./types.ts";
+
+const config = { aggregationIntervalMs: 0, tokenMultiplier: 1 } as unknown as ProxyConfig;
+
+async function stopReason(events: ParserEvent[], finishReason: string) {
+  const collector = new MessageCollector();
+  const stream = new ClaudeStream(collector, config, "req-test");
+  await stream.init();
+  await stream.handleEvents(events);
+  stream.setUpstreamFinishReason(finishReason);
+  await stream.handleEvents([{ type: "end" }]);
+  return collector.toMessage().stop_reason;
+}
+
+Deno.test("ClaudeStream reports max_tokens when the upstream stopped for length", async () => {
+  const reason = await stopReason([{ type: "text", content: "truncated outp" }], "length");
+  if (reason !== "max_tokens") throw new Error(`Unexpected stop_reason: ${reason}`);
+});
+
+Deno.test("ClaudeStream prefers tool_use over a length stop once a tool call was emitted", async () => {
+  const reason = await stopReason([
+    { type: "tool_call_delta", delta: { index: 0, id: "call_1", name: "Read", arguments: '{"path":"a"}' } },
+  ], "length");
+  if (reason !== "tool_use") throw new Error(`Unexpected stop_reason: ${reason}`);
+  const plain = await stopReason([{ type: "text", content: "done" }], "stop");
+  if (plain !== "end_turn") throw new Error(`Unexpected stop_reason: ${plain}`);
+});
+
+Deno.test("ClaudeStream.interrupt flushes buffered text and closes open blocks", async () => {
+  const collector = new MessageCollector();
+  const slowConfig = { ...config, aggregationIntervalMs: 60_000 } as ProxyConfig;
+  const stream = new ClaudeStream(collector, slowConfig, "req-test");
+  await stream.init();
+  await stream.handleEvents([{ type: "text", content: "partial answer" }]);
+  await stream.interrupt();
+  const content = collector.toMessage().content;
+  if (JSON.stringify(content) !== JSON.stringify([{ type: "text", text: "partial answer" }])) {
+    throw new Error(`Unexpected content: ${JSON.stringify(content)}`);
+  }
+  // interrupt 之后的 end 不再发出 message_delta
+  await stream.handleEvents([{ type: "end" }]);
+  if (collector.toMessage().stop_reason !== null) throw new Error("No stop_reason expected after interrupt");
+});
@@ -1,58 +1,144 @@
-import { ParsedInvokeCall, ParsedThinkingCall, ParserEvent } from "./types.ts";
+import {
+  ClaudeToolDefinition,
+  InvalidToolCallPolicy,
+  ParsedInvokeCall,
+  ParsedThinkingCall,
+  ParserEvent,
+} from "./types.ts";
 import { log } from "./logging.ts";
+import { coerceToolArguments, dropInvalidFields } from "./tool_schema.ts";
+import { metrics } from "./metrics.ts";
+
+const toolCallsEmitted = metrics.counter(
+  "proxy_tool_calls_total",
+  "Tool calls parsed from upstream output and emitted",
+);
+const invokeParseFailures = metrics.counter(
+  "proxy_invoke_parse_failures_total",
+  "Tool calls after the trigger signal that could not be used, by reason",
+);
+const triggerWithoutInvoke = metrics.counter(
+  "proxy_trigger_without_invoke_total",
+  "Responses where the trigger signal was not followed by an <invoke> block",
+);
+
+// 无法使用的工具调用的分类，作为指标标签
+type MalformedKind = "no_invoke" | "unclosed" | "unparsable" | "undeclared_tool";
 
 // 思考标签常量
 const THINKING_START_TAG = "<thinking>";
 const THINKING_END_TAG = "</thinking>";
 
-function parseInvokeXml(xml: string): ParsedInvokeCall | null {
+// text 末尾与 tag 开头重合的最长长度（流式输出时需要暂缓发出的字符数）
+function partialSuffixLength(text: string, tag: string): number {
+  for (let len = Math.min(text.length, tag.length - 1); len > 0; len--) {
+    if (text.endsWith(tag.slice(0, len))) return len;
+  }
+  return 0;
+}
+
+interface RawInvokeCall {
+  name: string;
+  // <parameter> 的原始文本（只去掉排版换行，见 stripLayoutNewlines），类型转换交给后续步骤
+  rawArguments: Record<string, string>;
+}
+
+// 模型常把参数值写在开始标签的下一行、结束标签的上一行，只去掉这各一个换行；
+// 其余空白都属于参数本身（例如 Write / Edit 内容末尾的换行），保持原样
+function stripLayoutNewlines(text: string): string {
+  return text.replace(/^\r?\n/, "").replace(/\r?\n$/, "");
+}
+
+function parseInvokeXml(xml: string): RawInvokeCall | null {
   try {
     const invokeMatch = xml.match(/<invoke[^>]*name="([^"]+)"[^>]*>/i);
     if (!invokeMatch) return null;
     const name = invokeMatch[1];
-    const params: Record<string, unknown> = {};
+    const rawArguments: Record<string, string> = {};
     const paramRegex = /<parameter[^>]*name="([^"]+)"[^>]*>([\s\S]*?)<\/parameter>/gi;
     let match: RegExpExecArray | null;
     while ((match = paramRegex.exec(xml)) !== null) {
-      const key = match[1];
-      const rawValue = match[2] ?? "";
-      const trimmed = rawValue.trim();
-      let value: unknown = trimmed;
-      if (trimmed) {
-        try {
-          value = JSON.parse(trimmed);
-        } catch {
-          value = trimmed;
-        }
-      } else {
-        value = "";
-      }
-      params[key] = value;
+      rawArguments[match[1]] = stripLayoutNewlines(match[2] ?? "");
     }
-    return { name, arguments: params };
+    return { name, rawArguments };
   } catch (error) {
     log("warn", "Failed to parse invoke XML", { error: String(error) });
     return null;
   }
 }
 
+// 没有可用 schema 时的兜底转换：能按 JSON 解析的值使用解析结果，否则保留原文
+function parseArgumentsLoosely(rawArguments: Record<string, string>): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(rawArguments)) {
+    let value: unknown = raw;
+    if (raw) {
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        value = raw;
+      }
+    } else {
+      value = "";
+    }
+    params[key] = value;
+  }
+  return params;
+}
+
+export interface ToolifyParserOptions {
+  // 并行工具调用模式：触发信号之后的每个 <invoke> 都会解析为独立的 tool_call 事件
+  parallelToolCalls?: boolean;
+  // 声明的工具定义，用于按 input_schema 转换与校验参数
+  tools?: ClaudeToolDefinition[];
+  invalidToolCallPolicy?: InvalidToolCallPolicy;
+  // 开启后，触发信号之后无法解析的工具调用会发出 malformed_tool_call 事件（用于重新提示修正），
+  // 否则按原样作为文本输出
+  reportMalformedToolCalls?: boolean;
+  // 客户端的 stop_sequences：可见文本命中后截断并停止解析后续输出
+  stopSequences?: string[];
+}
+
 export class ToolifyParser {
   private readonly triggerSignal?: string;
   // 是否开启思考解析，由上游请求的 thinking 配置决定
   private readonly thinkingEnabled: boolean;
+  private readonly parallelToolCalls: boolean;
+  private readonly toolSchemas = new Map<string, Record<string, unknown>>();
+  private readonly invalidToolCallPolicy: InvalidToolCallPolicy;
+  private readonly toolNames = new Set<string>();
+  private readonly reportMalformedToolCalls: boolean;
+  private readonly stopSequences: string[];
+  private stopped = false;
   private buffer = "";
   private captureBuffer = "";
   private capturing = false;
   private thinkingMode = false;
   private thinkingBuffer = "";
+  // 当前思考块是否已经发出过内容（用于去掉块开头的空白）
+  private thinkingStarted = false;
   private readonly events: ParserEvent[] = [];
 
-  constructor(triggerSignal?: string, thinkingEnabled = false) {
+  // 并行模式下已经发出的工具调用数量
+  private emittedToolCalls = 0;
+
+  constructor(triggerSignal?: string, thinkingEnabled = false, options: ToolifyParserOptions = {}) {
     this.triggerSignal = triggerSignal;
     this.thinkingEnabled = thinkingEnabled;
+    this.parallelToolCalls = options.parallelToolCalls ?? false;
+    this.invalidToolCallPolicy = options.invalidToolCallPolicy ?? "passthrough";
+    this.reportMalformedToolCalls = options.reportMalformedToolCalls ?? false;
+    this.stopSequences = (options.stopSequences ?? []).filter((sequence) => sequence.length > 0);
+    for (const tool of options.tools ?? []) {
+      this.toolNames.add(tool.name);
+      if (tool.input_schema) this.toolSchemas.set(tool.name, tool.input_schema);
+    }
   }
 
   feedChar(char: string) {
+    // 命中停止序列之后的输出全部丢弃
+    if (this.stopped) return;
+
     // 当 triggerSignal 未配置时，不启用工具协议，仅在 thinkingEnabled=true 时解析 <thinking>
     if (!this.triggerSignal) {
       this.handleCharWithoutTrigger(char);
@@ -61,15 +147,8 @@ export class ToolifyParser {
 
     // 以下为“启用工具协议”的模式，根据 thinkingEnabled 决定是否解析 <thinking> 块
 
-    if (this.thinkingEnabled) {
-      // 首先检查是否进入或退出思考模式
-      this.checkThinkingMode(char);
-
-      if (this.thinkingMode) {
-        this.thinkingBuffer += char;
-        this.tryEmitThinking();
-        return;
-      }
+    if (this.thinkingEnabled && !this.capturing && this.consumeThinkingChar(char)) {
+      return;
     }
 
     if (this.capturing) {
@@ -94,21 +173,15 @@ export class ToolifyParser {
       });
       const textPortion = this.buffer.slice(0, -this.triggerSignal.length);
       if (textPortion) {
-        this.events.push({ type: "text", content: textPortion });
+        this.pushText(textPortion);
       }
       this.buffer = "";
       this.capturing = true;
       this.captureBuffer = "";
+      return;
     }
-    // Log if buffer is getting long without trigger signal
-    if (this.buffer.length > 100 && this.buffer.length % 100 === 0) {
-      // Note: This log stays as system log since it's not request-specific
-      log("debug", "Parser buffer accumulating without trigger", {
-        bufferLength: this.buffer.length,
-        bufferTail: this.buffer.slice(-100),
-        expectedTrigger: this.triggerSignal,
-      });
-    }
+    if (this.matchStopSequence()) return;
+    this.releaseBufferedText();
   }
 
   finish() {
@@ -116,11 +189,8 @@ export class ToolifyParser {
       this.events.push({ type: "text", content: this.buffer });
     }
     if (this.thinkingEnabled && this.thinkingMode && this.thinkingBuffer) {
-      // 如果在思考模式下结束，发出剩余的思考内容
-      // 同样需要修复开头多一个 ">" 的问题
-      let thinkingContent = this.thinkingBuffer;
-      thinkingContent = thinkingContent.replace(/^\s*>\s*/, "");
-      this.events.push({ type: "thinking", content: thinkingContent });
+      // 如果在思考模式下结束，发出剩余的思考内容（包括疑似结束标签的部分）
+      this.pushThinking(this.thinkingBuffer);
     }
     this.tryEmitInvokes(true);
     this.events.push({ type: "end" });
@@ -131,12 +201,31 @@ export class ToolifyParser {
     this.thinkingMode = false;
   }
 
+  /**
+   * 把缓冲中的普通文本立即作为 text 事件发出。
+   * 原生 function calling 模式下，tool_calls 增量到达前调用，保证文本与工具调用的先后顺序。
+   */
+  flushText() {
+    if (this.capturing || this.thinkingMode || !this.buffer) return;
+    this.events.push({ type: "text", content: this.buffer });
+    this.buffer = "";
+  }
+
+  // 是否已经命中停止序列（调用方可以据此提前结束读取上游）
+  hasStopped(): boolean {
+    return this.stopped;
+  }
+
   consumeEvents(): ParserEvent[] {
     const pending = this.events.splice(0, this.events.length);
     return pending;
   }
 
   private tryEmitInvokes(force = false) {
+    if (this.parallelToolCalls) {
+      this.tryEmitParallelInvokes(force);
+      return;
+    }
     const lower = this.captureBuffer.toLowerCase();
     const startIdx = lower.indexOf("<invoke");
     
@@ -144,12 +233,12 @@ export class ToolifyParser {
       if (!force) {
         return;
       }
-      if (this.captureBuffer) {
-        log("debug", "No invoke tag found, emitting as text", {
+      if (this.capturing) {
+        log("debug", "No invoke tag found after trigger signal", {
           captureBufferPreview: this.captureBuffer.slice(0, 200),
           force,
         });
-        this.events.push({ type: "text", content: this.captureBuffer });
+        this.pushMalformed(this.captureBuffer, "no_invoke", "no <invoke> block followed the trigger signal");
         this.captureBuffer = "";
       }
       this.capturing = false;
@@ -158,6 +247,15 @@ export class ToolifyParser {
 
     const endIdx = this.captureBuffer.indexOf("</invoke>", startIdx);
     if (endIdx === -1) {
+      if (force) {
+        log("debug", "Incomplete invoke tag at end of response", {
+          captureBufferPreview: this.captureBuffer.slice(startIdx, startIdx + 200),
+        });
+        this.pushMalformed(this.captureBuffer, "unclosed", "the <invoke> block was not closed with </invoke>");
+        this.captureBuffer = "";
+        this.capturing = false;
+        return;
+      }
       log("debug", "Incomplete invoke tag, waiting for more data", {
         captureBufferPreview: this.captureBuffer.slice(startIdx, startIdx + 200),
       });
@@ -195,9 +293,9 @@ export class ToolifyParser {
     if (parsed) {
       log("debug", "Successfully parsed first invoke call", {
         toolName: parsed.name,
-        argumentKeys: Object.keys(parsed.arguments),
+        argumentKeys: Object.keys(parsed.rawArguments),
       });
-      this.events.push({ type: "tool_call", call: parsed });
+      this.pushToolCall(parsed, invokeXml);
       
       // 过滤掉第一个工具调用后面的所有 <invoke>...</invoke> 标签
       // 但保留非工具调用的文本内容
@@ -237,8 +335,8 @@ export class ToolifyParser {
       log("warn", "Failed to parse invoke XML", {
         invokeXml: invokeXml.slice(0, 500),
       });
-      // 解析失败时，将整个捕获内容作为文本输出
-      this.events.push({ type: "text", content: this.captureBuffer });
+      // 解析失败时，将整个捕获内容作为文本输出（或报告给调用方修正）
+      this.pushMalformed(this.captureBuffer, "unparsable", "the <invoke> block could not be parsed");
     }
     
     // 清空缓冲区并退出捕获模式
@@ -246,6 +344,116 @@ export class ToolifyParser {
     this.capturing = false;
   }
 
+  // 无法识别的工具调用：需要修正时发出 malformed_tool_call，否则原样作为文本输出
+  private pushMalformed(raw: string, kind: MalformedKind, reason: string) {
+    if (kind === "no_invoke") triggerWithoutInvoke.inc();
+    else invokeParseFailures.inc({ reason: kind });
+    if (this.reportMalformedToolCalls) {
+      this.events.push({ type: "malformed_tool_call", raw, reason });
+    } else if (raw) {
+      this.events.push({ type: "text", content: raw });
+    }
+  }
+
+  /**
+   * 按工具 schema 转换参数并发出事件：
+   * - 没有 schema 时沿用宽松的 JSON 解析；
+   * - 参数校验失败时按 invalidToolCallPolicy 处理，report 策略发出 invalid_tool_call 事件。
+   */
+  private pushToolCall(raw: RawInvokeCall, invokeXml: string) {
+    if (this.toolNames.size && !this.toolNames.has(raw.name)) {
+      log("warn", "Invoke references an undeclared tool", { toolName: raw.name });
+      this.pushMalformed(invokeXml, "undeclared_tool", `"${raw.name}" is not one of the available tools`);
+      return;
+    }
+    const schema = this.toolSchemas.get(raw.name);
+    if (!schema) {
+      this.pushToolCallEvent({ name: raw.name, arguments: parseArgumentsLoosely(raw.rawArguments) });
+      return;
+    }
+    const { arguments: args, issues } = coerceToolArguments(raw.rawArguments, schema);
+    if (!issues.length) {
+      this.pushToolCallEvent({ name: raw.name, arguments: args });
+      return;
+    }
+    log("debug", "Tool call arguments failed schema validation", {
+      toolName: raw.name,
+      issues,
+      policy: this.invalidToolCallPolicy,
+    });
+    if (this.invalidToolCallPolicy === "report") {
+      invokeParseFailures.inc({ reason: "invalid_arguments" });
+      this.events.push({ type: "invalid_tool_call", call: { name: raw.name, arguments: args }, issues });
+    } else if (this.invalidToolCallPolicy === "drop") {
+      this.pushToolCallEvent({ name: raw.name, arguments: dropInvalidFields(args, issues) });
+    } else {
+      this.pushToolCallEvent({ name: raw.name, arguments: args });
+    }
+  }
+
+  private pushToolCallEvent(call: ParsedInvokeCall) {
+    toolCallsEmitted.inc();
+    this.events.push({ type: "tool_call", call });
+  }
+
+  /**
+   * 并行工具调用模式：
+   * - 每遇到一个完整的 <invoke>...</invoke> 就立即发出 tool_call 事件；
+   * - <invoke> 之间的空白忽略，非空白文本作为 text 事件保留；
+   * - 结束时仍未闭合的 <invoke> 或剩余内容作为文本输出，避免内容丢失。
+   */
+  private tryEmitParallelInvokes(force: boolean) {
+    while (true) {
+      const startIdx = this.captureBuffer.toLowerCase().indexOf("<invoke");
+      const endIdx = startIdx === -1 ? -1 : this.captureBuffer.indexOf("</invoke>", startIdx);
+
+      if (startIdx === -1 || endIdx === -1) {
+        if (!force) {
+          return;
+        }
+        if (startIdx !== -1) {
+          this.pushMalformed(this.captureBuffer, "unclosed", "the <invoke> block was not closed with </invoke>");
+        } else if (this.capturing && this.emittedToolCalls === 0) {
+          this.pushMalformed(this.captureBuffer, "no_invoke", "no <invoke> block followed the trigger signal");
+        } else if (this.captureBuffer.trim()) {
+          log("debug", "Emitting remaining capture content as text", {
+            captureBufferPreview: this.captureBuffer.slice(0, 200),
+            emittedToolCalls: this.emittedToolCalls,
+          });
+          this.events.push({ type: "text", content: this.captureBuffer });
+        }
+        this.captureBuffer = "";
+        this.capturing = false;
+        return;
+      }
+
+      const before = this.captureBuffer.slice(0, startIdx);
+      if (before.trim()) {
+        this.events.push({ type: "text", content: before });
+      }
+
+      const endPos = endIdx + "</invoke>".length;
+      const invokeXml = this.captureBuffer.slice(startIdx, endPos);
+      this.captureBuffer = this.captureBuffer.slice(endPos);
+
+      const parsed = parseInvokeXml(invokeXml);
+      if (parsed) {
+        this.emittedToolCalls++;
+        log("debug", "Successfully parsed parallel invoke call", {
+          toolName: parsed.name,
+          argumentKeys: Object.keys(parsed.rawArguments),
+          callIndex: this.emittedToolCalls,
+        });
+        this.pushToolCall(parsed, invokeXml);
+      } else {
+        log("warn", "Failed to parse invoke XML", {
+          invokeXml: invokeXml.slice(0, 500),
+        });
+        this.pushMalformed(invokeXml, "unparsable", "the <invoke> block could not be parsed");
+      }
+    }
+  }
+
   /**
    * 在未启用工具协议（无 triggerSignal）时的解析逻辑：
    * - 只解析 <thinking>...</thinking>，并发出 thinking 事件；
@@ -256,98 +464,124 @@ export class ToolifyParser {
     // 未开启思考解析时，简单地把所有内容当作文本处理
     if (!this.thinkingEnabled) {
       this.buffer += char;
-      if (this.buffer.length >= 256) {
-        this.events.push({ type: "text", content: this.buffer });
-        this.buffer = "";
-      }
+      if (this.matchStopSequence()) return;
+      this.releaseBufferedText();
       return;
     }
-    if (this.thinkingMode) {
-      // 已处于思考模式：累积思考内容并检查结束标签
-      this.thinkingBuffer += char;
-      if (this.thinkingBuffer.endsWith(THINKING_END_TAG)) {
-        log("debug", "Exiting thinking mode (no-trigger)", {
-          thinkingContent: this.thinkingBuffer.slice(0, -THINKING_END_TAG.length),
-        });
-        let thinkingContent = this.thinkingBuffer.slice(0, -THINKING_END_TAG.length);
-        // 与启用工具时保持一致：去掉开头多余的 ">" 和空白
-        thinkingContent = thinkingContent.replace(/^\s*>\s*/, "");
-        if (thinkingContent) {
-          this.events.push({ type: "thinking", content: thinkingContent });
-        }
-        this.thinkingBuffer = "";
-        this.thinkingMode = false;
-      }
+    if (this.consumeThinkingChar(char)) {
       return;
     }
 
-    // 未处于思考模式：累积到普通缓冲区，检测 <thinking> 起始标签
+    // 未处于思考模式：除可能是 <thinking> 开头的末尾字符外，其余文本直接输出
     this.buffer += char;
-    if (this.buffer.endsWith(THINKING_START_TAG)) {
-      log("debug", "Entering thinking mode (no-trigger)", {
-        bufferBefore: this.buffer.slice(0, -THINKING_START_TAG.length),
-      });
-      const textPortion = this.buffer.slice(0, -THINKING_START_TAG.length);
-      if (textPortion) {
-        this.events.push({ type: "text", content: textPortion });
-      }
-      this.buffer = "";
-      this.thinkingMode = true;
-      this.thinkingBuffer = "";
-      return;
+    if (this.matchStopSequence()) return;
+    this.releaseBufferedText();
+  }
+
+  /**
+   * 流式输出普通文本：只保留缓冲区末尾可能是触发信号（或 <thinking>、停止序列）开头的最长后缀，
+   * 其余部分立即作为 text 事件发出，保证纯文本回答也能实时到达客户端。
+   */
+  private releaseBufferedText() {
+    let holdback = 0;
+    if (this.triggerSignal) {
+      holdback = partialSuffixLength(this.buffer, this.triggerSignal);
+    }
+    if (this.thinkingEnabled) {
+      holdback = Math.max(holdback, partialSuffixLength(this.buffer, THINKING_START_TAG));
     }
+    for (const sequence of this.stopSequences) {
+      holdback = Math.max(holdback, partialSuffixLength(this.buffer, sequence));
+    }
+    const ready = this.buffer.slice(0, this.buffer.length - holdback);
+    if (!ready) return;
+    this.pushText(ready);
+    this.buffer = this.buffer.slice(ready.length);
+  }
 
-    // 为了避免无限积累缓冲区，这里做一个简单的流式折中：
-    // 当缓冲区超出一定长度时，直接作为文本输出。
-    if (this.buffer.length >= 256) {
-      this.events.push({ type: "text", content: this.buffer });
-      this.buffer = "";
+  // 缓冲区以某个停止序列结尾时，发出序列之前的文本和 stop_sequence 事件，并停止解析
+  private matchStopSequence(): boolean {
+    const sequence = this.stopSequences.find((candidate) => this.buffer.endsWith(candidate));
+    if (sequence === undefined) return false;
+    log("debug", "Stop sequence matched", { sequence });
+    const textPortion = this.buffer.slice(0, -sequence.length);
+    if (textPortion) {
+      this.pushText(textPortion);
     }
+    this.events.push({ type: "stop_sequence", sequence });
+    this.buffer = "";
+    this.stopped = true;
+    return true;
   }
 
-  private checkThinkingMode(char: string) {
-    if (!this.thinkingEnabled) return;
-    // 检查是否进入思考模式
-    if (!this.thinkingMode) {
-      const tempBuffer = this.buffer + char;
-      if (tempBuffer.endsWith(THINKING_START_TAG)) {
-        log("debug", "Entering thinking mode", {
-          bufferBefore: this.buffer.slice(0, -THINKING_START_TAG.length + 1),
-        });
-        // 发出思考标签之前的文本
-        const textPortion = this.buffer.slice(0, -THINKING_START_TAG.length + 1);
-        if (textPortion) {
-          this.events.push({ type: "text", content: textPortion });
-        }
-        this.buffer = "";
-        this.thinkingMode = true;
-        this.thinkingBuffer = "";
-        return;
-      }
+  // 发出文本，与尚未被取走的上一个 text 事件合并，避免逐字符产生事件
+  private pushText(content: string) {
+    const last = this.events[this.events.length - 1];
+    if (last?.type === "text") {
+      last.content += content;
     } else {
-      // 检查是否退出思考模式
+      this.events.push({ type: "text", content });
+    }
+  }
+
+  /**
+   * 处理 <thinking> 块（有无 triggerSignal 两种模式共用），返回 true 表示该字符已被消费：
+   * - 普通缓冲区以 <thinking> 结尾时，发出标签之前的文本并进入思考模式；
+   * - 思考模式下逐步发出思考内容，只保留可能是 </thinking> 开头的末尾字符。
+   */
+  private consumeThinkingChar(char: string): boolean {
+    if (this.thinkingMode) {
+      this.thinkingBuffer += char;
       if (this.thinkingBuffer.endsWith(THINKING_END_TAG)) {
         log("debug", "Exiting thinking mode", {
-          thinkingContent: this.thinkingBuffer.slice(0, -THINKING_END_TAG.length),
+          triggerSignal: this.triggerSignal,
         });
-        // 发出思考内容（不包含结束标签）
-        let thinkingContent = this.thinkingBuffer.slice(0, -THINKING_END_TAG.length);
-        // 修复思考块开头多一个 ">" 的问题：由于当前解析逻辑在进入思考模式时，
-        // 会把 "<thinking>" 的结尾 ">" 作为首个思考字符写入 thinkingBuffer，
-        // 这里在真正发出事件前将前导的 ">" 和紧随其后的空白去掉。
-        thinkingContent = thinkingContent.replace(/^\s*>\s*/, "");
-        if (thinkingContent) {
-          this.events.push({ type: "thinking", content: thinkingContent });
-        }
+        this.pushThinking(this.thinkingBuffer.slice(0, -THINKING_END_TAG.length));
         this.thinkingBuffer = "";
         this.thinkingMode = false;
-        return;
+        return true;
       }
+      this.tryEmitThinking();
+      return true;
+    }
+
+    const candidate = this.buffer + char;
+    if (!candidate.endsWith(THINKING_START_TAG)) return false;
+    log("debug", "Entering thinking mode", {
+      triggerSignal: this.triggerSignal,
+      bufferBefore: candidate.slice(0, -THINKING_START_TAG.length).slice(-200),
+    });
+    const textPortion = candidate.slice(0, -THINKING_START_TAG.length);
+    if (textPortion) {
+      this.pushText(textPortion);
     }
+    this.buffer = "";
+    this.thinkingMode = true;
+    this.thinkingBuffer = "";
+    this.thinkingStarted = false;
+    return true;
   }
-  
+
   private tryEmitThinking() {
-    // 暂时不实现流式思考内容发出，等待完整的思考块
-    // 这样可以保持与工具调用类似的处理方式
+    const holdback = partialSuffixLength(this.thinkingBuffer, THINKING_END_TAG);
+    const ready = this.thinkingBuffer.slice(0, this.thinkingBuffer.length - holdback);
+    if (!ready) return;
+    this.pushThinking(ready);
+    this.thinkingBuffer = this.thinkingBuffer.slice(ready.length);
+  }
+
+  // 发出思考内容：去掉块开头的空白，并与尚未被取走的上一个 thinking 事件合并，避免事件过碎
+  private pushThinking(content: string) {
+    if (!this.thinkingStarted) {
+      content = content.trimStart();
+      if (content) this.thinkingStarted = true;
+    }
+    if (!content) return;
+    const last = this.events[this.events.length - 1];
+    if (last?.type === "thinking") {
+      last.content += content;
+    } else {
+      this.events.push({ type: "thinking", content });
+    }
   }
 }
@@ -82,3 +82,181 @@ Deno.test("ToolifyParser treats thinking tags as text when thinking disabled", (
     throw new Error(`Expected thinking tags to be preserved as text, got: ${combinedText}`);
   }
 });
+
+Deno.test("ToolifyParser keeps only the first invoke in single-call mode", () => {
+  const parser = new ToolifyParser("<<CALL_bb22>>", false);
+  const input =
+    `<<CALL_bb22>>\n<invoke name="Read">\n<parameter name="file_path">a.ts</parameter>\n</invoke>\n<invoke name="Read">\n<parameter name="file_path">b.ts</parameter>\n</invoke>\n`;
+  feed(parser, input);
+  parser.finish();
+  const toolEvents = parser.consumeEvents().filter((e) => e.type === "tool_call");
+  if (toolEvents.length !== 1) {
+    throw new Error(`Expected exactly one tool call in single-call mode, got ${toolEvents.length}`);
+  }
+});
+
+Deno.test("ToolifyParser emits every invoke in parallel mode", () => {
+  const parser = new ToolifyParser("<<CALL_cc33>>", false, { parallelToolCalls: true });
+  const input =
+    `Reading both files.\n<<CALL_cc33>>\n<invoke name="Read">\n<parameter name="file_path">a.ts</parameter>\n</invoke>\n<invoke name="Read">\n<parameter name="file_path">b.ts</parameter>\n</invoke>\n`;
+  feed(parser, input);
+  parser.finish();
+  const events = parser.consumeEvents();
+
+  const toolEvents = events.filter((e) => e.type === "tool_call") as {
+    type: "tool_call";
+    call: { name: string; arguments: Record<string, unknown> };
+  }[];
+  if (toolEvents.length !== 2) {
+    throw new Error(`Expected two tool calls in parallel mode, got ${toolEvents.length}`);
+  }
+  const paths = toolEvents.map((e) => e.call.arguments.file_path);
+  if (paths[0] !== "a.ts" || paths[1] !== "b.ts") {
+    throw new Error(`Tool call arguments out of order: ${JSON.stringify(paths)}`);
+  }
+
+  const combinedText = (events.filter((e) => e.type === "text") as { type: "text"; content: string }[])
+    .map((e) => e.content).join("");
+  if (combinedText.includes("<invoke")) {
+    throw new Error(`Invoke markup leaked into text: ${combinedText}`);
+  }
+});
+
+Deno.test("ToolifyParser coerces arguments against the tool schema", () => {
+  const tools = [{
+    name: "Search",
+    input_schema: {
+      type: "object",
+      properties: { query: { type: "string" }, limit: { type: "number" } },
+      required: ["query"],
+    },
+  }];
+  const parser = new ToolifyParser("<<CALL_dd44>>", false, { tools });
+  feed(
+    parser,
+    `<<CALL_dd44>>\n<invoke name="Search">\n<parameter name="query">123</parameter>\n<parameter name="limit">5</parameter>\n</invoke>\n`,
+  );
+  parser.finish();
+  const toolEvent = parser.consumeEvents().find((e) => e.type === "tool_call");
+  if (!toolEvent || toolEvent.type !== "tool_call") {
+    throw new Error("Expected tool call event");
+  }
+  if (toolEvent.call.arguments.query !== "123" || toolEvent.call.arguments.limit !== 5) {
+    throw new Error(`Arguments not coerced by schema: ${JSON.stringify(toolEvent.call.arguments)}`);
+  }
+});
+
+Deno.test("ToolifyParser keeps string parameters as written apart from layout newlines", () => {
+  const tools = [{
+    name: "Write",
+    input_schema: {
+      type: "object",
+      properties: { file_path: { type: "string" }, content: { type: "string" } },
+    },
+  }];
+  const parser = new ToolifyParser("<<CALL_dd45>>", false, { tools });
+  feed(
+    parser,
+    `<<CALL_dd45>>\n<invoke name="Write">\n<parameter name="file_path">a.ts</parameter>\n` +
+      `<parameter name="content">\n  indented\nlast line\n\n</parameter>\n</invoke>\n`,
+  );
+  parser.finish();
+  const toolEvent = parser.consumeEvents().find((e) => e.type === "tool_call");
+  if (!toolEvent || toolEvent.type !== "tool_call") {
+    throw new Error("Expected tool call event");
+  }
+  if (toolEvent.call.arguments.content !== "  indented\nlast line\n") {
+    throw new Error(`Content not kept as written: ${JSON.stringify(toolEvent.call.arguments.content)}`);
+  }
+});
+
+Deno.test("ToolifyParser reports invalid arguments under the report policy", () => {
+  const tools = [{
+    name: "Search",
+    input_schema: { type: "object", properties: { limit: { type: "number" } }, required: ["limit"] },
+  }];
+  const parser = new ToolifyParser("<<CALL_ee55>>", false, { tools, invalidToolCallPolicy: "report" });
+  feed(parser, `<<CALL_ee55>>\n<invoke name="Search">\n<parameter name="limit">lots</parameter>\n</invoke>\n`);
+  parser.finish();
+  const events = parser.consumeEvents();
+  if (events.some((e) => e.type === "tool_call")) {
+    throw new Error("Invalid tool call should not be emitted as tool_call");
+  }
+  const invalid = events.find((e) => e.type === "invalid_tool_call");
+  if (!invalid || invalid.type !== "invalid_tool_call" || invalid.issues[0]?.path !== "limit") {
+    throw new Error(`Expected invalid_tool_call event for limit, got ${JSON.stringify(events)}`);
+  }
+});
+
+Deno.test("ToolifyParser reports malformed tool calls when repair is enabled", () => {
+  const tools = [{ name: "Search", input_schema: { type: "object" } }];
+  const unknown = new ToolifyParser("<<CALL_ff66>>", false, { tools, reportMalformedToolCalls: true });
+  feed(unknown, `<<CALL_ff66>>\n<invoke name="Browse">\n<parameter name="url">x</parameter>\n</invoke>\n`);
+  unknown.finish();
+  const unknownEvents = unknown.consumeEvents();
+  if (unknownEvents.some((e) => e.type === "tool_call") || !unknownEvents.some((e) => e.type === "malformed_tool_call")) {
+    throw new Error(`Expected malformed_tool_call for undeclared tool, got ${JSON.stringify(unknownEvents)}`);
+  }
+
+  const unterminated = new ToolifyParser("<<CALL_ff66>>", false, { tools });
+  feed(unterminated, `<<CALL_ff66>>\n<invoke name="Search">\n<parameter name="q">x`);
+  unterminated.finish();
+  const text = unterminated.consumeEvents()
+    .filter((e): e is { type: "text"; content: string } => e.type === "text")
+    .map((e) => e.content).join("");
+  if (!text.includes('<invoke name="Search">')) {
+    throw new Error(`Unterminated invoke should fall back to text without repair, got ${text}`);
+  }
+});
+
+Deno.test("ToolifyParser streams thinking content before the closing tag arrives", () => {
+  const parser = new ToolifyParser("<<CALL_gg77>>", true);
+  feed(parser, "<thinking>\n step one </thin");
+  const early = parser.consumeEvents();
+  const first = early.find((e) => e.type === "thinking");
+  if (!first || first.type !== "thinking" || first.content !== "step one ") {
+    throw new Error(`Expected partial thinking without the held-back tag prefix, got ${JSON.stringify(early)}`);
+  }
+  feed(parser, "king>Answer");
+  parser.finish();
+  const rest = parser.consumeEvents();
+  if (rest.some((e) => e.type === "thinking")) {
+    throw new Error(`Closing tag should not produce more thinking, got ${JSON.stringify(rest)}`);
+  }
+  const text = rest.filter((e): e is { type: "text"; content: string } => e.type === "text").map((e) => e.content).join("");
+  if (text !== "Answer") {
+    throw new Error(`Unexpected text after thinking: ${text}`);
+  }
+});
+
+Deno.test("ToolifyParser streams text and holds back only a possible trigger prefix", () => {
+  const parser = new ToolifyParser("<<CALL_hh88>>", false);
+  feed(parser, "Plain answer <<CA");
+  const early = parser.consumeEvents();
+  if (early.length !== 1 || early[0].type !== "text" || early[0].content !== "Plain answer ") {
+    throw new Error(`Expected text up to the partial trigger, got ${JSON.stringify(early)}`);
+  }
+  feed(parser, "T is not a trigger");
+  const later = parser.consumeEvents();
+  if (later.length !== 1 || later[0].type !== "text" || later[0].content !== "<<CAT is not a trigger") {
+    throw new Error(`Held-back prefix should be released once it stops matching, got ${JSON.stringify(later)}`);
+  }
+});
+
+Deno.test("ToolifyParser stops at a stop sequence and drops the rest", () => {
+  const parser = new ToolifyParser("<<CALL_ii99>>", false, { stopSequences: ["END"] });
+  feed(parser, "Answer: 42 EN");
+  const early = parser.consumeEvents();
+  if (early.length !== 1 || early[0].type !== "text" || early[0].content !== "Answer: 42 ") {
+    throw new Error(`Expected a possible stop sequence prefix to be held back, got ${JSON.stringify(early)}`);
+  }
+  feed(parser, "D more text <<CALL_ii99>>");
+  parser.finish();
+  const rest = parser.consumeEvents();
+  if (!parser.hasStopped() || rest[0]?.type !== "stop_sequence" || rest[0].sequence !== "END") {
+    throw new Error(`Expected stop_sequence event, got ${JSON.stringify(rest)}`);
+  }
+  if (rest.some((e) => e.type === "text")) {
+    throw new Error(`Output after the stop sequence should be dropped, got ${JSON.stringify(rest)}`);
+  }
+});
@@ -1,4 +1,4 @@
-import { ClaudeToolDefinition, OpenAIChatMessage, OpenAIChatRequest } from "./types.ts";
+import { ClaudeToolChoice, ClaudeToolDefinition, OpenAIChatMessage, OpenAIChatRequest } from "./types.ts";
 import { randomTriggerSignal } from "./signals.ts";
 
 const DEFAULT_TEMPLATE = `
@@ -41,10 +41,30 @@ IMPORTANT RULES:
   - Parameters must retain punctuation (including hyphen prefixes) exactly as defined.
   - Encode arrays and objects in JSON before placing inside <parameter>.
   - Be concise when not using tools.
-  - 在调用工具后会得到工具调用结果，所以请在一次工具调用得到结果后再调用下一个。
+{tool_call_policy}{tool_choice_policy}
   
   `;
 
+// 单次调用模式：每个回复只允许一个工具调用
+const SINGLE_CALL_POLICY = "  - 在调用工具后会得到工具调用结果，所以请在一次工具调用得到结果后再调用下一个。";
+
+// 并行调用模式：同一个触发信号之后可以连续输出多个 <invoke>
+const PARALLEL_CALL_POLICY = [
+  "  - When several tool calls do not depend on each other (for example reading multiple files), output all of them right after the single trigger signal, each in its own <invoke>...</invoke> block.",
+  "  - Tool calls that depend on the result of another call must wait until that result has been returned.",
+].join("\n");
+
+// 根据 tool_choice 追加的强制调用规则；auto 时不追加任何内容
+function buildToolChoicePolicy(choice?: ClaudeToolChoice): string {
+  if (choice?.type === "any") {
+    return "\n  - For this response you MUST call at least one tool. Answering with plain text only is not allowed.";
+  }
+  if (choice?.type === "tool") {
+    return `\n  - For this response you MUST call the tool "${choice.name}". Do not call any other tool and do not answer with plain text only.`;
+  }
+  return "";
+}
+
 function escapeText(text: string): string {
   return text.replace(/</g, "&lt;").replace(/>/g, "&gt;");
 }
@@ -89,12 +109,23 @@ function buildToolsXml(tools: ClaudeToolDefinition[]): string {
   return `<function_list>\n${items}\n</function_list>`;
 }
 
+export interface PromptInjectionOptions {
+  // 是否在提示词中允许一次输出多个 <invoke>
+  parallelToolCalls?: boolean;
+  toolChoice?: ClaudeToolChoice;
+}
+
 export interface PromptInjectionResult {
   messages: OpenAIChatMessage[];
   triggerSignal?: string;
 }
 
-export function injectPrompt(request: OpenAIChatRequest, tools: ClaudeToolDefinition[], triggerSignal?: string): PromptInjectionResult {
+export function injectPrompt(
+  request: OpenAIChatRequest,
+  tools: ClaudeToolDefinition[],
+  triggerSignal?: string,
+  options: PromptInjectionOptions = {},
+): PromptInjectionResult {
   if (!tools.length) {
     // 无工具时直接透传用户/系统消息，不注入任何工具指令
     return { messages: request.messages };
@@ -104,6 +135,8 @@ export function injectPrompt(request: OpenAIChatRequest, tools: ClaudeToolDefini
   const toolsXml = buildToolsXml(tools);
   const template = DEFAULT_TEMPLATE
     .replaceAll("{trigger_signal}", signal)
+    .replace("{tool_call_policy}", options.parallelToolCalls ? PARALLEL_CALL_POLICY : SINGLE_CALL_POLICY)
+    .replace("{tool_choice_policy}", buildToolChoicePolicy(options.toolChoice))
     .replace("{tools_list}", toolsXml);
 
   const messages: OpenAIChatMessage[] = [
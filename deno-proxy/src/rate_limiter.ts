@@ -1,7 +1,82 @@
+import { ProxyError } from "./errors.ts";
+import { metrics } from "./metrics.ts";
+
+const rejections = metrics.counter(
+  "proxy_rate_limit_rejections_total",
+  "Requests rejected by the global rate limiter or stream limiter, by limiter and reason",
+);
+
 interface PendingRequest {
   id: string;
+  inputTokens: number;
   resolve: () => void;
+  // 放行时清理超时定时器与取消监听
+  settle: () => void;
+  timestamp: number;
+}
+
+// 时间窗口内的一条记录：一次放行的请求（带输入 token），或一次流结束时补记的输出 token
+interface WindowEntry {
   timestamp: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+type WindowField = "requests" | "inputTokens" | "outputTokens";
+
+// 每个时间窗口（默认一分钟）内的额度，0 表示不限制
+export interface RateLimits {
+  requestsPerMinute: number;
+  inputTokensPerMinute: number;
+  outputTokensPerMinute: number;
+}
+
+// 排队的上限：最多排队的请求数与最长等待时间，0 表示不限制
+export interface QueueLimits {
+  maxQueueLength: number;
+  maxWaitMs: number;
+}
+
+const UNBOUNDED_QUEUE: QueueLimits = { maxQueueLength: 0, maxWaitMs: 0 };
+
+type Rejection = { limiter: "requests" | "streams"; reason: "queue_full" | "wait_too_long" | "timeout" };
+
+function rateLimitError(rejection: Rejection, message: string, retryAfterMs: number): ProxyError {
+  rejections.inc(rejection);
+  return new ProxyError("rate_limit_error", message, Math.max(1, Math.ceil(retryAfterMs / 1000)));
+}
+
+/**
+ * 把等待者从队列中移除的两种情况：等待超过 maxWaitMs（以 onTimeout 的错误拒绝），
+ * 或 signal 触发（客户端断开，以取消原因拒绝）。返回的函数在正常放行时调用，清理定时器与监听。
+ */
+function watchWaiter(
+  remove: () => void,
+  reject: (error: unknown) => void,
+  maxWaitMs: number,
+  onTimeout: () => ProxyError,
+  signal?: AbortSignal,
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const settle = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  };
+  const onAbort = () => {
+    settle();
+    remove();
+    reject(signal!.reason);
+  };
+  if (maxWaitMs > 0) {
+    timer = setTimeout(() => {
+      settle();
+      remove();
+      reject(onTimeout());
+    }, maxWaitMs);
+  }
+  signal?.addEventListener("abort", onAbort, { once: true });
+  return settle;
 }
 
 // 简单的异步等待函数，与项目中其他部分保持一致
@@ -9,28 +84,81 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * 发往上游的请求在滑动窗口内的限流：请求数、输入 token 与输出 token 分别计量。
+ * - 输入 token 在放行时按 countTokens 的结果计入；单个请求超过整个额度时，等窗口清空后单独放行；
+ * - 输出 token 要等流结束后才知道，由 recordOutputTokens 补记，超出额度后新的请求需要等待其过期。
+ *
+ * 排队有上限：队列已满、或预计等待超过 maxWaitMs 时立即以 rate_limit_error 拒绝，
+ * 排队超时同样拒绝；retryAfterSeconds 为按当前窗口估算的可用时间。
+ */
 export class RateLimiter {
-  private timestamps: number[] = [];
+  private window: WindowEntry[] = [];
   private pendingQueue: PendingRequest[] = [];
   private isProcessing = false;
   private requestCounter = 0;
 
-  constructor(private readonly limit: number, private readonly windowMs: number) {}
+  constructor(
+    private readonly limits: RateLimits,
+    private readonly queue: QueueLimits = UNBOUNDED_QUEUE,
+    private readonly windowMs = 60_000,
+  ) {}
 
-  async acquire(): Promise<void> {
-    if (this.limit <= 0) {
+  async acquire(inputTokens = 0, signal?: AbortSignal): Promise<void> {
+    if (!this.enabled()) {
       return;
     }
+    signal?.throwIfAborted();
 
-    const requestId = `req_${++this.requestCounter}_${Date.now()}`;
-    
-    return new Promise<void>((resolve) => {
-      // 将请求添加到队列中，确保先来后到
-      this.pendingQueue.push({
+    const now = Date.now();
+    this.cleanupExpiredEntries(now);
+    const { maxQueueLength, maxWaitMs } = this.queue;
+    if (maxQueueLength > 0 && this.pendingQueue.length >= maxQueueLength) {
+      throw rateLimitError(
+        { limiter: "requests", reason: "queue_full" },
+        `Rate limit queue is full (${this.pendingQueue.length} requests waiting)`,
+        this.waitTime(inputTokens, now),
+      );
+    }
+    // 队列为空时可以准确算出需要等待多久，超过上限就不必排队了
+    if (maxWaitMs > 0 && this.pendingQueue.length === 0) {
+      const waitMs = this.waitTime(inputTokens, now);
+      if (waitMs > maxWaitMs) {
+        throw rateLimitError(
+          { limiter: "requests", reason: "wait_too_long" },
+          `Rate limit exceeded, capacity frees up in ${waitMs}ms`,
+          waitMs,
+        );
+      }
+    }
+
+    const requestId = `req_${++this.requestCounter}_${now}`;
+
+    return new Promise<void>((resolve, reject) => {
+      const request: PendingRequest = {
         id: requestId,
+        inputTokens,
         resolve,
-        timestamp: Date.now(),
-      });
+        settle: () => {},
+        timestamp: now,
+      };
+      request.settle = watchWaiter(
+        () => {
+          const index = this.pendingQueue.indexOf(request);
+          if (index !== -1) this.pendingQueue.splice(index, 1);
+        },
+        reject,
+        maxWaitMs,
+        () =>
+          rateLimitError(
+            { limiter: "requests", reason: "timeout" },
+            `Rate limit wait exceeded ${maxWaitMs}ms`,
+            this.waitTime(inputTokens, Date.now()),
+          ),
+        signal,
+      );
+      // 将请求添加到队列中，确保先来后到
+      this.pendingQueue.push(request);
 
       // 如果当前没有在处理队列，开始处理
       if (!this.isProcessing) {
@@ -39,6 +167,18 @@ export class RateLimiter {
     });
   }
 
+  // 流结束后补记实际的输出 token
+  recordOutputTokens(outputTokens: number, now = Date.now()) {
+    if (this.limits.outputTokensPerMinute <= 0 || outputTokens <= 0) return;
+    this.window.push({ timestamp: now, requests: 0, inputTokens: 0, outputTokens });
+  }
+
+  private enabled(): boolean {
+    return this.limits.requestsPerMinute > 0 ||
+      this.limits.inputTokensPerMinute > 0 ||
+      this.limits.outputTokensPerMinute > 0;
+  }
+
   private async processQueue(): Promise<void> {
     if (this.isProcessing || this.pendingQueue.length === 0) {
       return;
@@ -49,27 +189,20 @@ export class RateLimiter {
     try {
       while (this.pendingQueue.length > 0) {
         const now = Date.now();
-        
-        // 清理过期的时间戳
-        this.cleanupExpiredTimestamps(now);
-        
-        // 如果还有配额，处理下一个请求
-        if (this.timestamps.length < this.limit) {
+
+        // 清理过期的记录
+        this.cleanupExpiredEntries(now);
+
+        // 如果还有额度，处理下一个请求
+        const waitMs = this.waitTime(this.pendingQueue[0].inputTokens, now);
+        if (waitMs <= 0) {
           const request = this.pendingQueue.shift()!;
-          this.timestamps.push(now);
+          request.settle();
+          this.window.push({ timestamp: now, requests: 1, inputTokens: request.inputTokens, outputTokens: 0 });
           request.resolve();
         } else {
-          // 没有配额，计算需要等待的时间
-          const oldestTimestamp = this.timestamps[0];
-          const waitMs = Math.max(0, this.windowMs - (now - oldestTimestamp));
-          
-          if (waitMs > 0) {
-            // 等待最旧的时间戳过期
-            await sleep(waitMs);
-          } else {
-            // 如果等待时间为0，立即清理并继续
-            this.cleanupExpiredTimestamps(Date.now());
-          }
+          // 没有额度，等待足够多的旧记录过期（期间被移出队列的请求会在醒来后跳过）
+          await sleep(waitMs);
         }
       }
     } finally {
@@ -77,18 +210,126 @@ export class RateLimiter {
     }
   }
 
-  private cleanupExpiredTimestamps(now: number): void {
-    // 保留在时间窗口内的时间戳
-    this.timestamps = this.timestamps.filter((ts) => now - ts < this.windowMs);
+  // 放行一个带 inputTokens 的请求之前还需要等待多久；0 表示可以立即放行
+  private waitTime(inputTokens: number, now: number): number {
+    const { requestsPerMinute, inputTokensPerMinute, outputTokensPerMinute } = this.limits;
+    let waitMs = 0;
+    if (requestsPerMinute > 0) {
+      waitMs = Math.max(waitMs, this.waitForField("requests", requestsPerMinute - 1, now));
+    }
+    if (inputTokensPerMinute > 0) {
+      waitMs = Math.max(waitMs, this.waitForField("inputTokens", Math.max(0, inputTokensPerMinute - inputTokens), now));
+    }
+    if (outputTokensPerMinute > 0) {
+      waitMs = Math.max(waitMs, this.waitForField("outputTokens", outputTokensPerMinute - 1, now));
+    }
+    return waitMs;
+  }
+
+  // 窗口内 field 的总量超过 allowed 时，返回需要等待多久才能让足够多的旧记录过期
+  private waitForField(field: WindowField, allowed: number, now: number): number {
+    let total = this.window.reduce((sum, entry) => sum + entry[field], 0);
+    if (total <= allowed) return 0;
+    for (const entry of this.window) {
+      total -= entry[field];
+      if (total <= allowed) return Math.max(1, entry.timestamp + this.windowMs - now);
+    }
+    return 0;
   }
 
-  // 用于测试和调试的方法
+  private cleanupExpiredEntries(now: number): void {
+    // 保留在时间窗口内的记录
+    this.window = this.window.filter((entry) => now - entry.timestamp < this.windowMs);
+  }
+
+  // 当前排队等待的请求数
   getQueueLength(): number {
     return this.pendingQueue.length;
   }
 
   getActiveRequestsCount(): number {
-    this.cleanupExpiredTimestamps(Date.now());
-    return this.timestamps.length;
+    this.cleanupExpiredEntries(Date.now());
+    return this.window.reduce((sum, entry) => sum + entry.requests, 0);
+  }
+}
+
+// 一个已占用的并发名额；release 可以重复调用
+export interface ConcurrencySlot {
+  release(): void;
+}
+
+interface SlotWaiter {
+  resolve: () => void;
+  settle: () => void;
+}
+
+/**
+ * 同时进行的下游流数量上限（信号量），按先来后到分配名额。
+ * 名额在整个响应结束（包括重新提示的多轮上游请求）或客户端取消时归还。
+ * 排队上限与 RateLimiter 相同；无法预知何时有流结束，拒绝时建议 1 秒后重试。
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiters: SlotWaiter[] = [];
+
+  constructor(private readonly maxConcurrent: number, private readonly queue: QueueLimits = UNBOUNDED_QUEUE) {}
+
+  // 不限制（maxConcurrent 为 0）时同样统计占用的名额，供 /metrics 报告进行中的流
+  async acquire(signal?: AbortSignal): Promise<ConcurrencySlot> {
+    signal?.throwIfAborted();
+    if (this.maxConcurrent > 0 && this.active >= this.maxConcurrent) {
+      const { maxQueueLength, maxWaitMs } = this.queue;
+      if (maxQueueLength > 0 && this.waiters.length >= maxQueueLength) {
+        throw rateLimitError(
+          { limiter: "streams", reason: "queue_full" },
+          `Too many concurrent streams (${this.waiters.length} waiting)`,
+          1000,
+        );
+      }
+      // 名额由 release 直接转交给等待者，active 保持不变
+      await new Promise<void>((resolve, reject) => {
+        const waiter: SlotWaiter = { resolve, settle: () => {} };
+        waiter.settle = watchWaiter(
+          () => {
+            const index = this.waiters.indexOf(waiter);
+            if (index !== -1) this.waiters.splice(index, 1);
+          },
+          reject,
+          maxWaitMs,
+          () =>
+            rateLimitError(
+              { limiter: "streams", reason: "timeout" },
+              `Waited more than ${maxWaitMs}ms for a free stream slot`,
+              1000,
+            ),
+          signal,
+        );
+        this.waiters.push(waiter);
+      });
+    } else {
+      this.active++;
+    }
+    let released = false;
+    return {
+      release: () => {
+        if (released) return;
+        released = true;
+        const next = this.waiters.shift();
+        if (next) {
+          next.settle();
+          next.resolve();
+        } else {
+          this.active--;
+        }
+      },
+    };
+  }
+
+  getActiveCount(): number {
+    return this.active;
+  }
+
+  getQueueLength(): number {
+    return this.waiters.length;
   }
 }
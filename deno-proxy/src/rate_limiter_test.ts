@@ -0,0 +1,82 @@
+import { ConcurrencyLimiter, RateLimiter } from "./rate_limiter.ts";
+import { ProxyError } from "./errors.ts";
+
+Deno.test("RateLimiter waits for the input and output token budgets", async () => {
+  const limits = { requestsPerMinute: 0, inputTokensPerMinute: 100, outputTokensPerMinute: 10 };
+  const limiter = new RateLimiter(limits, { maxQueueLength: 0, maxWaitMs: 0 }, 50);
+  let start = Date.now();
+  await limiter.acquire(80);
+  // 单个请求超过整个额度时，等窗口清空后单独放行
+  await limiter.acquire(150);
+  const inputWait = Date.now() - start;
+  if (inputWait < 40) {
+    throw new Error(`Second request should wait for the input budget, waited ${inputWait}ms`);
+  }
+
+  await new Promise((resolve) => setTimeout(resolve, 60));
+  limiter.recordOutputTokens(20);
+  start = Date.now();
+  await limiter.acquire(0);
+  const outputWait = Date.now() - start;
+  if (outputWait < 40) {
+    throw new Error(`Request should wait for the output budget, waited ${outputWait}ms`);
+  }
+});
+
+Deno.test("RateLimiter rejects over-limit waiters with retry-after and drops aborted ones", async () => {
+  const limits = { requestsPerMinute: 1, inputTokensPerMinute: 0, outputTokensPerMinute: 0 };
+  const rejection = async (promise: Promise<void>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error;
+    }
+    throw new Error("Expected the request to be rejected");
+  };
+
+  // 预计等待超过 maxWaitMs：不排队，直接拒绝
+  const strict = new RateLimiter(limits, { maxQueueLength: 10, maxWaitMs: 1000 }, 5000);
+  await strict.acquire();
+  const fast = await rejection(strict.acquire());
+  if (!(fast instanceof ProxyError) || fast.type !== "rate_limit_error" || fast.retryAfterSeconds !== 5) {
+    throw new Error(`Expected fast 429 with retry-after 5, got ${fast}`);
+  }
+
+  const limiter = new RateLimiter(limits, { maxQueueLength: 1, maxWaitMs: 0 }, 5000);
+  await limiter.acquire();
+  const controller = new AbortController();
+  const waiting = rejection(limiter.acquire(0, controller.signal));
+  const full = await rejection(limiter.acquire());
+  if (!(full instanceof ProxyError) || limiter.getQueueLength() !== 1) {
+    throw new Error(`Expected queue-full rejection, got ${full}`);
+  }
+  controller.abort(new Error("client gone"));
+  const aborted = await waiting;
+  if (String(aborted) !== "Error: client gone" || limiter.getQueueLength() !== 0) {
+    throw new Error(`Aborted waiter should leave the queue, got ${aborted}`);
+  }
+});
+
+Deno.test("ConcurrencyLimiter hands released slots to waiters in order", async () => {
+  const limiter = new ConcurrencyLimiter(1);
+  const first = await limiter.acquire();
+  const order: string[] = [];
+  const second = limiter.acquire().then((slot) => {
+    order.push("second");
+    return slot;
+  });
+  const third = limiter.acquire().then((slot) => {
+    order.push("third");
+    return slot;
+  });
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  if (order.length) throw new Error("Waiters should not start before a slot is released");
+
+  first.release();
+  first.release();
+  (await second).release();
+  (await third).release();
+  if (order.join(",") !== "second,third" || limiter.getActiveCount() !== 0) {
+    throw new Error(`Unexpected order ${order} with ${limiter.getActiveCount()} active slots`);
+  }
+});
@@ -0,0 +1,50 @@
+import { ModelRoute, ProxyConfig, UpstreamConfig } from "./config.ts";
+
+/**
+ * 按请求中的模型名选择上游：
+ * - 先查找与模型名完全相同的路由；
+ * - 再按书写顺序匹配 glob 路由（* 匹配任意字符，? 匹配单个字符）；
+ * - 都不匹配时使用默认上游（upstreams 中的第一个）。
+ * 选中的上游失败时，再按其 fallbacks 的顺序尝试备用上游。
+ */
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesModelPattern(pattern: string, model: string): boolean {
+  if (!pattern.includes("*") && !pattern.includes("?")) return pattern === model;
+  return globToRegExp(pattern).test(model);
+}
+
+// 模型名命中的路由，没有命中时返回 undefined（使用默认上游）
+export function matchRoute(config: ProxyConfig, model: string | undefined): ModelRoute | undefined {
+  if (!model) return undefined;
+  return config.routes.find((item) => item.pattern === model) ??
+    config.routes.find((item) => matchesModelPattern(item.pattern, model));
+}
+
+export function resolveUpstream(config: ProxyConfig, model: string | undefined): UpstreamConfig {
+  const defaultUpstream = config.upstreams[0];
+  const route = matchRoute(config, model);
+  if (!route) return defaultUpstream;
+  return config.upstreams.find((upstream) => upstream.name === route.upstream) ?? defaultUpstream;
+}
+
+// 选中的上游及其备用上游，按尝试顺序排列（去重）
+export function upstreamCandidates(config: ProxyConfig, primary: UpstreamConfig): UpstreamConfig[] {
+  const candidates = [primary];
+  for (const name of primary.fallbacks) {
+    const fallback = config.upstreams.find((upstream) => upstream.name === name);
+    if (fallback && !candidates.includes(fallback)) candidates.push(fallback);
+  }
+  return candidates;
+}
@@ -0,0 +1,67 @@
+import { ProxyConfig, UpstreamConfig } from "./config.ts";
+import { matchesModelPattern, matchRoute, resolveUpstream, upstreamCandidates } from "./router.ts";
+
+function upstream(name: string, fallbacks: string[] = []): UpstreamConfig {
+  return {
+    name,
+    baseUrl: `http://${name}.local/v1/chat/completions`,
+    timeoutMs: 1000,
+    nativeTools: false,
+    vision: false,
+    stopSequences: false,
+    fallbacks,
+  };
+}
+
+const config = {
+  upstreams: [upstream("default"), upstream("cheap", ["default", "cheap", "missing"]), upstream("strong")],
+  routes: [
+    { pattern: "claude-*-haiku*", upstream: "cheap" },
+    { pattern: "claude-*", upstream: "strong" },
+    { pattern: "claude-3-5-haiku-latest", upstream: "strong" },
+  ],
+} as unknown as ProxyConfig;
+
+Deno.test("matchesModelPattern supports exact names and globs", () => {
+  const cases: [string, string, boolean][] = [
+    ["claude-sonnet-4", "claude-sonnet-4", true],
+    ["claude-sonnet-4", "claude-sonnet-4-5", false],
+    ["claude-*-haiku*", "claude-3-5-haiku-20241022", true],
+    ["claude-?-opus", "claude-4-opus", true],
+    ["gpt.4", "gpt-4", false],
+  ];
+  for (const [pattern, model, expected] of cases) {
+    if (matchesModelPattern(pattern, model) !== expected) {
+      throw new Error(`${pattern} vs ${model}: expected ${expected}`);
+    }
+  }
+});
+
+Deno.test("resolveUpstream prefers exact routes, then globs in order, then the default", () => {
+  const picks = {
+    "claude-3-5-haiku-latest": resolveUpstream(config, "claude-3-5-haiku-latest").name,
+    "claude-3-5-haiku-20241022": resolveUpstream(config, "claude-3-5-haiku-20241022").name,
+    "claude-sonnet-4": resolveUpstream(config, "claude-sonnet-4").name,
+    "gpt-4o": resolveUpstream(config, "gpt-4o").name,
+  };
+  const expected = {
+    "claude-3-5-haiku-latest": "strong",
+    "claude-3-5-haiku-20241022": "cheap",
+    "claude-sonnet-4": "strong",
+    "gpt-4o": "default",
+  };
+  if (JSON.stringify(picks) !== JSON.stringify(expected)) {
+    throw new Error(`Unexpected routing: ${JSON.stringify(picks)}`);
+  }
+  const matched = matchRoute(config, "claude-3-5-haiku-20241022");
+  if (matched?.pattern !== "claude-*-haiku*" || matchRoute(config, "gpt-4o")) {
+    throw new Error("matchRoute should return the matching route and nothing for unrouted models");
+  }
+});
+
+Deno.test("upstreamCandidates lists the primary followed by its known fallbacks", () => {
+  const names = upstreamCandidates(config, config.upstreams[1]).map((item) => item.name);
+  if (JSON.stringify(names) !== JSON.stringify(["cheap", "default"])) {
+    throw new Error(`Unexpected candidates: ${JSON.stringify(names)}`);
+  }
+});
@@ -7,12 +7,34 @@ export interface SSEEvent<T = unknown> {
   data: T;
 }
 
-export class SSEWriter {
+// ClaudeStream 只依赖 send/close 两个方法，非流式请求可以用其他实现收集事件
+export interface EventSink {
+  send(event: SSEEvent, critical?: boolean): Promise<boolean>;
+  close(): void;
+}
+
+export class SSEWriter implements EventSink {
+  private closed = false;
+  private lastSentAt = 0;
+  private pingTimer?: ReturnType<typeof setInterval>;
+
+  /**
+   * pingIntervalMs > 0 时，只要超过这么久没有写出任何事件（例如上游仍在思考、
+   * 或 thinking 内容还在缓冲中），就发送一个 ping 事件，避免中间代理或客户端因空闲断开连接。
+   */
   constructor(
     private controller: ReadableStreamDefaultController<Uint8Array>,
     private requestId: string,
-  ) {}
-  private closed = false;
+    pingIntervalMs = 0,
+  ) {
+    if (pingIntervalMs > 0) {
+      this.pingTimer = setInterval(() => {
+        // 在 message_start 之前不发送 ping
+        if (this.closed || !this.lastSentAt || Date.now() - this.lastSentAt < pingIntervalMs) return;
+        this.send({ event: "ping", data: { type: "ping" } });
+      }, Math.min(pingIntervalMs / 2, 1000));
+    }
+  }
 
   async send(event: SSEEvent, critical = false) {
     if (this.closed) {
@@ -40,6 +62,7 @@ export class SSEWriter {
         }
         
         this.controller.enqueue(encoder.encode(payload));
+        this.lastSentAt = Date.now();
         return true;
       } catch (error) {
         if (retry === maxRetries - 1) {
@@ -66,7 +89,14 @@ export class SSEWriter {
     return false;
   }
 
+  // 下游流已被客户端取消：之后的写入直接丢弃，也不再关闭 controller
+  cancel() {
+    this.closed = true;
+    clearInterval(this.pingTimer);
+  }
+
   close() {
+    clearInterval(this.pingTimer);
     if (this.closed) return;
     this.closed = true;
     this.controller.close();
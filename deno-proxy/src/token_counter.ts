@@ -10,6 +10,10 @@ export interface TokenCountResult {
   output_tokens?: number;
 }
 
+// 单张图片的 token 估算值：Anthropic 按 宽×高/750 计费，长边缩放后单图上限约 1600 tokens。
+// 这里拿不到图片尺寸，统一按上限估算，宁可略高也不要低估上下文占用。
+const IMAGE_TOKEN_ESTIMATE = 1600;
+
 /**
  * 使用 tiktoken 进行精确的 token 估算
  */
@@ -52,6 +56,16 @@ export function extractTextFromMessages(messages: ClaudeMessage[]): string {
   }).join("\n");
 }
 
+/**
+ * 统计 Claude 消息中的图片数量
+ */
+export function countImagesInMessages(messages: ClaudeMessage[]): number {
+  return messages.reduce((count, message) => {
+    if (typeof message.content === "string") return count;
+    return count + message.content.filter((block) => block.type === "image").length;
+  }, 0);
+}
+
 /**
  * 使用本地 tiktoken 算法计算 token 数量
  */
@@ -63,6 +77,16 @@ export async function estimateTokensLocally(
   const allText = extractTextFromMessages(request.messages);
   let estimatedTokens = estimateTokensFromText(allText, request.model);
 
+  // 添加图片的 token
+  const imageCount = countImagesInMessages(request.messages);
+  if (imageCount > 0) {
+    estimatedTokens += imageCount * IMAGE_TOKEN_ESTIMATE;
+    await logRequest(requestId, "debug", "Added image tokens", {
+      imageCount,
+      imageTokens: imageCount * IMAGE_TOKEN_ESTIMATE,
+    });
+  }
+
   // 添加系统提示的 token
   if (request.system) {
     const systemText = typeof request.system === "string"
@@ -0,0 +1,61 @@
+import { ClaudeToolChoice, OpenAIToolChoice } from "./types.ts";
+
+/**
+ * Anthropic tool_choice 语义：
+ * - auto：模型自行决定是否调用工具（默认）；
+ * - any：必须调用至少一个工具；
+ * - tool：必须调用指定名称的工具；
+ * - none：禁止调用工具。
+ */
+
+// 是否要求本次响应必须包含工具调用
+export function requiresToolCall(choice?: ClaudeToolChoice): boolean {
+  return choice?.type === "any" || choice?.type === "tool";
+}
+
+// 被强制调用的工具名（仅 type=tool 时存在）
+export function forcedToolName(choice?: ClaudeToolChoice): string | undefined {
+  return choice?.type === "tool" ? choice.name : undefined;
+}
+
+export function toolsDisabled(choice?: ClaudeToolChoice): boolean {
+  return choice?.type === "none";
+}
+
+// 并行调用由配置开启，但客户端可以通过 disable_parallel_tool_use 在单次请求中关闭
+export function allowsParallelToolCalls(configured: boolean, choice?: ClaudeToolChoice): boolean {
+  if (!configured) return false;
+  if (choice && choice.type !== "none" && choice.disable_parallel_tool_use) return false;
+  return true;
+}
+
+// 原生 function calling 模式下转换为 OpenAI tool_choice
+export function mapToolChoiceToOpenAI(choice?: ClaudeToolChoice): OpenAIToolChoice | undefined {
+  switch (choice?.type) {
+    case "auto":
+      return "auto";
+    case "any":
+      return "required";
+    case "tool":
+      return { type: "function", function: { name: choice.name } };
+    case "none":
+      return "none";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 强制工具调用没有出现时，追加给上游的纠正指令。
+ * 提示词注入模式下需要再次说明触发信号格式，原生模式下只需要要求发起 function call。
+ */
+export function buildToolChoiceReminder(choice: ClaudeToolChoice, triggerSignal?: string): string {
+  const target = choice.type === "tool" ? `the tool "${choice.name}"` : "at least one of the available tools";
+  if (!triggerSignal) {
+    return `You did not call a tool in your previous response. You MUST now call ${target} and must not answer with plain text.`;
+  }
+  return [
+    `You did not call a tool in your previous response. You MUST now call ${target}.`,
+    `Output the trigger signal ${triggerSignal} on its own line, immediately followed by the <invoke> block, with no other text.`,
+  ].join("\n");
+}
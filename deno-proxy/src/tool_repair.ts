@@ -0,0 +1,62 @@
+import { OpenAIChatRequest, ParsedInvokeCall, ToolArgumentIssue } from "./types.ts";
+
+/**
+ * 构造重新提示上游的请求：
+ * 在原请求末尾追加上一轮上游的输出（作为 assistant 消息）以及一条纠正指令（作为 user 消息），
+ * 让上游在看到自己上一轮输出的前提下给出符合要求的结果。
+ */
+export function appendRepairTurn(
+  request: OpenAIChatRequest,
+  partialOutput: string,
+  instruction: string,
+): OpenAIChatRequest {
+  const messages = [...request.messages];
+  if (partialOutput.trim()) {
+    messages.push({ role: "assistant", content: partialOutput });
+  }
+  messages.push({ role: "user", content: instruction });
+  return { ...request, messages };
+}
+
+/**
+ * 工具参数未通过 schema 校验时的纠正指令：逐条列出问题，要求模型只重新输出修正后的调用。
+ */
+export function buildInvalidArgumentsReminder(
+  invalidCalls: { call: ParsedInvokeCall; issues: ToolArgumentIssue[] }[],
+  triggerSignal?: string,
+): string {
+  const details = invalidCalls.map(({ call, issues }) => {
+    const lines = issues.map((issue) => `  - ${issue.path || "(arguments)"}: ${issue.message}`);
+    return [`Tool "${call.name}":`, ...lines].join("\n");
+  }).join("\n");
+  const format = triggerSignal
+    ? `Output the trigger signal ${triggerSignal} on its own line, followed only by the corrected <invoke> block(s).`
+    : "Call the tool(s) again with corrected arguments.";
+  return [
+    "Some of your tool call arguments do not match the tool's input schema:",
+    details,
+    `Fix these problems and repeat only the affected tool call(s). ${format}`,
+  ].join("\n");
+}
+
+/**
+ * 触发信号之后的输出无法解析为工具调用时的纠正指令：说明原因并重申调用格式与可用工具。
+ */
+export function buildMalformedToolCallReminder(
+  malformed: { raw: string; reason: string }[],
+  toolNames: string[],
+  triggerSignal: string,
+): string {
+  const reasons = [...new Set(malformed.map((item) => item.reason))].map((reason) => `  - ${reason}`);
+  const lines = [
+    "Your previous tool call could not be parsed:",
+    ...reasons,
+    `To call a tool, output the trigger signal ${triggerSignal} on its own line, followed immediately by a complete block in this format:`,
+    '<invoke name="tool_name">\n<parameter name="param_name">value</parameter>\n</invoke>',
+  ];
+  if (toolNames.length) {
+    lines.push(`The available tools are: ${toolNames.join(", ")}.`);
+  }
+  lines.push("Repeat the tool call in the correct format, without any other text.");
+  return lines.join("\n");
+}
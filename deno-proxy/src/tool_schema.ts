@@ -0,0 +1,228 @@
+import { ToolArgumentIssue } from "./types.ts";
+
+/**
+ * 根据工具的 input_schema 对解析出的参数做类型转换与校验。
+ *
+ * 提示词注入模式下，<parameter> 的值都是模型输出的文本：
+ * - 声明为 string 的参数保持原文（"123"、"true" 不会被转换成数字/布尔）；
+ * - 声明为 number/integer/boolean 的参数会把 "42"、"true" 之类的文本转换为对应类型；
+ * - object/array 支持 JSON 文本，并递归校验 properties/items；
+ * - 同时检查 enum 与 required，问题以 path + message 的形式返回，由调用方决定如何处理。
+ *
+ * 这里只实现 JSON Schema 中工具定义常用的子集，未识别的关键字一律忽略。
+ */
+
+type Schema = Record<string, unknown>;
+
+export interface CoercionResult {
+  arguments: Record<string, unknown>;
+  issues: ToolArgumentIssue[];
+}
+
+function schemaTypes(schema: Schema): string[] {
+  const type = schema.type;
+  if (typeof type === "string") return [type];
+  if (Array.isArray(type)) return type.filter((t): t is string => typeof t === "string");
+  // 没有 type 但有 properties/items 时按 object/array 处理
+  if (schema.properties) return ["object"];
+  if (schema.items) return ["array"];
+  return [];
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// 把值尽量转换为指定类型，无法转换时返回 undefined
+function convertTo(value: unknown, type: string): unknown {
+  if (matchesType(value, type)) return value;
+  switch (type) {
+    case "string":
+      if (typeof value === "number" || typeof value === "boolean") return String(value);
+      if (value !== null && typeof value === "object") return JSON.stringify(value);
+      return undefined;
+    case "number":
+    case "integer": {
+      if (typeof value !== "string" || !value.trim()) return undefined;
+      const num = Number(value.trim());
+      if (!Number.isFinite(num)) return undefined;
+      if (type === "integer" && !Number.isInteger(num)) return undefined;
+      return num;
+    }
+    case "boolean":
+      if (value === "true") return true;
+      if (value === "false") return false;
+      return undefined;
+    case "null":
+      return value === "null" ? null : undefined;
+    case "array":
+    case "object": {
+      if (typeof value !== "string") return undefined;
+      const parsed = tryParseJson(value.trim());
+      return matchesType(parsed, type) ? parsed : undefined;
+    }
+    default:
+      return value;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function coerceValue(value: unknown, schema: Schema, path: string, issues: ToolArgumentIssue[]): unknown {
+  const types = schemaTypes(schema);
+  let result = value;
+
+  if (types.length && !types.some((type) => matchesType(value, type))) {
+    let converted: unknown = undefined;
+    let found = false;
+    for (const type of types) {
+      converted = convertTo(value, type);
+      if (converted !== undefined) {
+        found = true;
+        break;
+      }
+    }
+    if (!found) {
+      issues.push({ path, message: `expected ${types.join(" | ")}, got ${describe(value)}` });
+      return value;
+    }
+    result = converted;
+  }
+
+  if (Array.isArray(result) && schema.items && typeof schema.items === "object") {
+    result = result.map((item, index) => coerceValue(item, schema.items as Schema, `${path}[${index}]`, issues));
+  } else if (matchesType(result, "object") && (schema.properties || schema.required)) {
+    result = coerceObject(result as Record<string, unknown>, schema, path, issues);
+  }
+
+  if (Array.isArray(schema.enum)) {
+    const allowed = schema.enum.map((item) => JSON.stringify(item));
+    if (!allowed.includes(JSON.stringify(result))) {
+      issues.push({ path, message: `must be one of ${allowed.join(", ")}` });
+    }
+  }
+  return result;
+}
+
+function coerceObject(
+  value: Record<string, unknown>,
+  schema: Schema,
+  path: string,
+  issues: ToolArgumentIssue[],
+): Record<string, unknown> {
+  const properties = (schema.properties ?? {}) as Record<string, Schema>;
+  const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const childPath = path ? `${path}.${key}` : key;
+    const propertySchema = properties[key];
+    if (!propertySchema) {
+      if (schema.additionalProperties === false) {
+        issues.push({ path: childPath, message: "unknown parameter" });
+      }
+      result[key] = item;
+      continue;
+    }
+    result[key] = coerceValue(item, propertySchema, childPath, issues);
+  }
+  for (const key of required) {
+    if (!(key in value)) {
+      issues.push({ path: path ? `${path}.${key}` : key, message: "missing required parameter" });
+    }
+  }
+  return result;
+}
+
+/**
+ * 对 <parameter> 原始文本做 schema 感知的转换。
+ * string 类型的参数始终使用原文，带引号的文本（如 "use strict"）也不会被当作 JSON 字符串解包；
+ * 其余参数先按 JSON 解析，解析结果是字符串时同样保留原文。
+ */
+export function coerceToolArguments(rawArguments: Record<string, string>, schema: Schema): CoercionResult {
+  const properties = (schema.properties ?? {}) as Record<string, Schema>;
+  const issues: ToolArgumentIssue[] = [];
+  const initial: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(rawArguments)) {
+    const propertySchema = properties[key];
+    const types = propertySchema ? schemaTypes(propertySchema) : [];
+    if (types.length === 1 && types[0] === "string") {
+      initial[key] = raw;
+    } else if (!raw) {
+      initial[key] = "";
+    } else {
+      const parsed = tryParseJson(raw);
+      initial[key] = parsed === undefined || typeof parsed === "string" ? raw : parsed;
+    }
+  }
+  return { arguments: coerceObject(initial, schema, "", issues), issues };
+}
+
+function comparePaths(a: string[], b: string[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    const numA = Number(a[i]);
+    const numB = Number(b[i]);
+    if (Number.isInteger(numA) && Number.isInteger(numB)) return numA - numB;
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+/**
+ * 按问题路径删除参数中校验失败的字段（缺失的必填参数没有可删除的内容，会被忽略）。
+ */
+export function dropInvalidFields(
+  args: Record<string, unknown>,
+  issues: ToolArgumentIssue[],
+): Record<string, unknown> {
+  const result = structuredClone(args);
+  // 倒序处理，保证同一个数组中靠后的元素先删除，不影响前面元素的下标
+  const paths = issues
+    .filter((issue) => issue.message !== "missing required parameter")
+    .map((issue) => issue.path.match(/[^.[\]]+/g) ?? [])
+    .sort(comparePaths)
+    .reverse();
+  for (const segments of paths) {
+    let target: any = result;
+    for (const segment of segments.slice(0, -1)) {
+      target = target?.[segment];
+    }
+    const last = segments[segments.length - 1];
+    if (target === undefined || target === null || last === undefined) continue;
+    if (Array.isArray(target)) {
+      target.splice(Number(last), 1);
+    } else {
+      delete target[last];
+    }
+  }
+  return result;
+}
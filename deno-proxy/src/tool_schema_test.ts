@@ -0,0 +1,69 @@
+import { coerceToolArguments, dropInvalidFields } from "./tool_schema.ts";
+
+const schema = {
+  type: "object",
+  properties: {
+    path: { type: "string" },
+    limit: { type: "integer" },
+    recursive: { type: "boolean" },
+    mode: { type: "string", enum: ["read", "write"] },
+    filters: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { field: { type: "string" }, min: { type: "number" } },
+        required: ["field"],
+      },
+    },
+  },
+  required: ["path"],
+};
+
+Deno.test("coerceToolArguments keeps string parameters as written", () => {
+  const { arguments: args, issues } = coerceToolArguments({ path: "123", mode: "true", code: '"use strict"' }, {
+    type: "object",
+    properties: { path: { type: "string" }, mode: { type: "string" }, code: { type: "string" } },
+  });
+  if (args.path !== "123" || args.mode !== "true" || args.code !== '"use strict"') {
+    throw new Error(`String parameters were converted: ${JSON.stringify(args)}`);
+  }
+  if (issues.length) {
+    throw new Error(`Unexpected issues: ${JSON.stringify(issues)}`);
+  }
+});
+
+Deno.test("coerceToolArguments converts numbers, booleans and nested values", () => {
+  const { arguments: args, issues } = coerceToolArguments({
+    path: "src",
+    limit: "20",
+    recursive: "false",
+    filters: `[{"field": "size", "min": "10"}]`,
+  }, schema);
+  if (args.limit !== 20) throw new Error(`Integer not converted: ${args.limit}`);
+  if (args.recursive !== false) throw new Error(`Boolean not converted: ${args.recursive}`);
+  const filters = args.filters as { field: string; min: number }[];
+  if (filters[0].min !== 10) throw new Error(`Nested number not converted: ${JSON.stringify(filters)}`);
+  if (issues.length) throw new Error(`Unexpected issues: ${JSON.stringify(issues)}`);
+});
+
+Deno.test("coerceToolArguments reports enum, type and required problems", () => {
+  const { issues } = coerceToolArguments({
+    limit: "1.5",
+    mode: "delete",
+    filters: `[{"min": 1}]`,
+  }, schema);
+  const paths = issues.map((issue) => issue.path).sort();
+  const expected = ["filters[0].field", "limit", "mode", "path"];
+  if (JSON.stringify(paths) !== JSON.stringify(expected)) {
+    throw new Error(`Unexpected issue paths: ${JSON.stringify(issues)}`);
+  }
+});
+
+Deno.test("dropInvalidFields removes only the offending fields", () => {
+  const { arguments: args, issues } = coerceToolArguments({ path: "a", limit: "many", mode: "read" }, schema);
+  const cleaned = dropInvalidFields(args, issues);
+  if ("limit" in cleaned) throw new Error("Invalid field was not dropped");
+  if (cleaned.path !== "a" || cleaned.mode !== "read") {
+    throw new Error(`Valid fields were modified: ${JSON.stringify(cleaned)}`);
+  }
+});
@@ -23,7 +23,21 @@ export interface ClaudeThinkingBlock {
   thinking: string;
 }
 
-export type ClaudeContentBlock = ClaudeTextBlock | ClaudeToolUseBlock | ClaudeToolResultBlock | ClaudeThinkingBlock;
+export type ClaudeImageSource =
+  | { type: "base64"; media_type: string; data: string }
+  | { type: "url"; url: string };
+
+export interface ClaudeImageBlock {
+  type: "image";
+  source: ClaudeImageSource;
+}
+
+export type ClaudeContentBlock =
+  | ClaudeTextBlock
+  | ClaudeToolUseBlock
+  | ClaudeToolResultBlock
+  | ClaudeThinkingBlock
+  | ClaudeImageBlock;
 
 export interface ClaudeMessage {
   role: ClaudeRole;
@@ -38,12 +52,36 @@ export interface ClaudeRequest {
   stream?: boolean;
   temperature?: number;
   top_p?: number;
+  stop_sequences?: string[];
   metadata?: Record<string, unknown>;
   tools?: ClaudeToolDefinition[];
-  tool_choice?: unknown;
+  tool_choice?: ClaudeToolChoice;
   thinking?: ThinkingConfigParam;
 }
 
+export type ClaudeStopReason = "end_turn" | "max_tokens" | "stop_sequence" | "tool_use";
+
+// 非流式（stream: false）请求返回的完整 Message 对象
+export interface ClaudeMessageResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: ClaudeContentBlock[];
+  stop_reason: ClaudeStopReason | null;
+  stop_sequence: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+export type ClaudeToolChoice =
+  | { type: "auto"; disable_parallel_tool_use?: boolean }
+  | { type: "any"; disable_parallel_tool_use?: boolean }
+  | { type: "tool"; name: string; disable_parallel_tool_use?: boolean }
+  | { type: "none" };
+
 export interface ThinkingConfigParam {
   type: "enabled" | "disabled";
   budget_tokens?: number;
@@ -55,9 +93,35 @@ export interface ClaudeToolDefinition {
   input_schema: Record<string, unknown>;
 }
 
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface OpenAIToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+// 多模态消息的内容片段（仅在上游支持视觉输入时使用）
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
 export interface OpenAIChatMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
+  role: "system" | "user" | "assistant" | "tool";
+  // 仅包含 tool_calls 的 assistant 消息 content 为 null；包含图片时为多段 content
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
 }
 
 export interface OpenAIChatRequest {
@@ -66,20 +130,54 @@ export interface OpenAIChatRequest {
   temperature?: number;
   top_p?: number;
   max_tokens?: number;
+  stop?: string[];
   messages: OpenAIChatMessage[];
+  // 仅在原生 function calling 模式下透传给上游
+  tools?: OpenAIToolDefinition[];
+  tool_choice?: OpenAIToolChoice;
+  parallel_tool_calls?: boolean;
 }
 
+export type OpenAIToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
 export interface ParsedInvokeCall {
   name: string;
   arguments: Record<string, unknown>;
 }
 
+// 参数不符合 schema 时的处理策略：原样透传 / 删除出错字段 / 报告给模型重新生成
+export type InvalidToolCallPolicy = "passthrough" | "drop" | "report";
+
+// 工具参数校验问题，path 形如 "options.items[0]"
+export interface ToolArgumentIssue {
+  path: string;
+  message: string;
+}
+
 export interface ParsedThinkingCall {
   content: string;
 }
 
+// 原生 function calling 模式下上游 delta.tool_calls 的单个片段
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments: string;
+}
+
 export type ParserEvent =
   | { type: "text"; content: string }
   | { type: "tool_call"; call: ParsedInvokeCall }
+  | { type: "tool_call_delta"; delta: ToolCallDelta }
+  | { type: "invalid_tool_call"; call: ParsedInvokeCall; issues: ToolArgumentIssue[] }
+  // 触发信号之后的内容无法识别为工具调用（raw 为原始输出，reason 为原因说明）
+  | { type: "malformed_tool_call"; raw: string; reason: string }
   | { type: "thinking"; content: string }
+  // 可见文本命中了 stop_sequences 之一，之后的输出全部丢弃
+  | { type: "stop_sequence"; sequence: string }
   | { type: "end" };
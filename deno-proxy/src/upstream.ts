@@ -1,43 +1,173 @@
-import { ProxyConfig } from "./config.ts";
+import { UpstreamConfig, UpstreamRetryPolicy } from "./config.ts";
 import { OpenAIChatRequest } from "./types.ts";
 import { logRequest } from "./logging.ts";
+import { ProxyError } from "./errors.ts";
 
-export async function callUpstream(
+// 可被取消的等待：signal 触发时立即以取消原因 reject
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// 解析 Retry-After：既可以是秒数，也可以是 HTTP 日期；无法解析时返回 undefined
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+// 第 attempt 次失败后的等待时间：baseDelayMs * 2^(attempt-1)，再加上 [0, jitterMs) 的随机抖动
+export function backoffDelay(policy: UpstreamRetryPolicy, attempt: number, random = Math.random): number {
+  return policy.baseDelayMs * 2 ** (attempt - 1) + Math.floor(random() * policy.jitterMs);
+}
+
+/**
+ * 读取上游响应体的下一块数据，timeoutMs 内没有读到时取消读取并抛出 ProxyError（timeoutMs <= 0 表示不限制）。
+ * fetch 层面的超时只覆盖到响应头，响应体的首 token 与空闲超时靠这里控制。
+ */
+export async function readWithTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timeoutMs: number,
+  timeoutMessage: string,
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  if (timeoutMs <= 0) return reader.read();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProxyError("api_error", timeoutMessage)), timeoutMs);
+  });
+  try {
+    return await Promise.race([reader.read(), timeout]);
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function fetchOnce(
   body: OpenAIChatRequest,
-  config: ProxyConfig,
-  requestId: string,
+  upstream: UpstreamConfig,
+  timeoutMs: number,
+  signal?: AbortSignal,
 ): Promise<Response> {
   const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), config.requestTimeoutMs);
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  // 超时只作用于等待响应头；请求级的 signal 在读取响应体期间也保持有效
+  const fetchSignal = signal ? AbortSignal.any([controller.signal, signal]) : controller.signal;
 
   const headers = new Headers({
     "content-type": "application/json",
   });
-  if (config.upstreamApiKey) {
-    headers.set("authorization", `Bearer ${config.upstreamApiKey}`);
+  if (upstream.apiKey) {
+    headers.set("authorization", `Bearer ${upstream.apiKey}`);
   }
 
-  await logRequest(requestId, "debug", "Sending upstream request", {
-    url: config.upstreamBaseUrl,
-    upstreamRequestBody: body,
-  });
-
-  let response: Response;
   try {
-    response = await fetch(config.upstreamBaseUrl, {
+    return await fetch(upstream.baseUrl, {
       method: "POST",
       headers,
       body: JSON.stringify(body),
-      signal: controller.signal,
+      signal: fetchSignal,
     });
   } finally {
     clearTimeout(timeout);
   }
+}
 
-  await logRequest(requestId, "debug", "Upstream response received", { status: response.status });
-  if (!response.body) {
-    throw new Error("Upstream response has no body");
-  }
+/**
+ * 向上游发送请求。连接错误以及 retry.statusCodes 中的状态码（默认 429/5xx）会按指数退避重试，
+ * 优先遵循上游返回的 Retry-After。所有尝试共用 upstream.timeoutMs 的时间预算，
+ * 下一次等待会超出预算时不再重试，直接返回最后一次的响应（或抛出最后一次的错误）。
+ *
+ * 这里只处理响应头之前的阶段，还没有向客户端写出任何内容，所以重试是安全的。
+ *
+ * signal 是整个下游请求的取消信号（客户端断开、服务关闭），触发后立即中止正在进行的 fetch
+ * 或退避等待，不再重试；它同样会中止之后对响应体的读取。
+ */
+export async function callUpstream(
+  body: OpenAIChatRequest,
+  upstream: UpstreamConfig,
+  requestId: string,
+  retry: UpstreamRetryPolicy,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const deadline = Date.now() + upstream.timeoutMs;
+  const maxAttempts = Math.max(1, retry.maxAttempts);
 
-  return response;
+  await logRequest(requestId, "debug", "Sending upstream request", {
+    upstream: upstream.name,
+    url: upstream.baseUrl,
+    upstreamRequestBody: body,
+  });
+
+  for (let attempt = 1;; attempt++) {
+    let response: Response;
+    try {
+      response = await fetchOnce(body, upstream, deadline - Date.now(), signal);
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      const delayMs = backoffDelay(retry, attempt);
+      await logRequest(requestId, "warn", "Upstream request attempt failed", {
+        upstream: upstream.name,
+        attempt,
+        maxAttempts,
+        error: String(error),
+      });
+      // 超时说明时间预算已经用完，不再重试
+      if (attempt >= maxAttempts || Date.now() + delayMs >= deadline) throw error;
+      await logRequest(requestId, "info", "Retrying upstream request", { upstream: upstream.name, attempt, delayMs });
+      await sleep(delayMs, signal);
+      continue;
+    }
+
+    await logRequest(requestId, "debug", "Upstream response received", {
+      upstream: upstream.name,
+      attempt,
+      status: response.status,
+    });
+    if (!retry.statusCodes.includes(response.status) || attempt >= maxAttempts) {
+      if (!response.body) {
+        throw new Error("Upstream response has no body");
+      }
+      return response;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+    const delayMs = retryAfterMs ?? backoffDelay(retry, attempt);
+    await logRequest(requestId, "warn", "Upstream returned retryable status", {
+      upstream: upstream.name,
+      attempt,
+      maxAttempts,
+      status: response.status,
+      retryAfterMs,
+    });
+    if (Date.now() + delayMs >= deadline) {
+      await logRequest(requestId, "warn", "Upstream retry budget exhausted", {
+        upstream: upstream.name,
+        attempt,
+        delayMs,
+        remainingMs: deadline - Date.now(),
+      });
+      return response;
+    }
+    await response.body?.cancel();
+    await logRequest(requestId, "info", "Retrying upstream request", { upstream: upstream.name, attempt, delayMs });
+    await sleep(delayMs, signal);
+  }
 }
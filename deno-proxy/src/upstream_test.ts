@@ -0,0 +1,53 @@
+import { backoffDelay, parseRetryAfter, readWithTimeout } from "./upstream.ts";
+import { ProxyError } from "./errors.ts";
+
+Deno.test("parseRetryAfter accepts seconds and HTTP dates", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+  const cases: [string | null, number | undefined][] = [
+    ["2", 2000],
+    ["0.5", 500],
+    ["Wed, 01 Jan 2025 00:00:03 GMT", 3000],
+    ["Tue, 31 Dec 2024 23:59:00 GMT", 0],
+    ["soon", undefined],
+    [null, undefined],
+  ];
+  for (const [value, expected] of cases) {
+    const actual = parseRetryAfter(value, now);
+    if (actual !== expected) {
+      throw new Error(`Retry-After ${value}: expected ${expected}, got ${actual}`);
+    }
+  }
+});
+
+Deno.test("backoffDelay doubles per attempt and adds bounded jitter", () => {
+  const policy = { maxAttempts: 4, baseDelayMs: 100, jitterMs: 50, statusCodes: [503] };
+  const delays = [1, 2, 3].map((attempt) => backoffDelay(policy, attempt, () => 0));
+  if (JSON.stringify(delays) !== JSON.stringify([100, 200, 400])) {
+    throw new Error(`Unexpected delays: ${JSON.stringify(delays)}`);
+  }
+  if (backoffDelay(policy, 1, () => 0.999) !== 149) {
+    throw new Error("Jitter should stay below jitterMs");
+  }
+});
+
+Deno.test("readWithTimeout cancels a silent upstream stream", async () => {
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    cancel() {
+      cancelled = true;
+    },
+  });
+  const reader = stream.getReader();
+  let error: unknown;
+  try {
+    await readWithTimeout(reader, 10, "idle");
+  } catch (caught) {
+    error = caught;
+  }
+  if (!(error instanceof ProxyError) || error.message !== "idle") {
+    throw new Error(`Expected idle timeout, got ${error}`);
+  }
+  if (!cancelled) {
+    throw new Error("Timed out read should cancel the upstream stream");
+  }
+});
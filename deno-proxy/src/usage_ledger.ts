@@ -0,0 +1,143 @@
+import { log } from "./logging.ts";
+
+export type UsageStatus = "success" | "error" | "cancelled";
+
+// 用量账本中的一行：每个被放行的 /v1/messages 请求结束时记录一次
+export interface UsageRecord {
+  timestamp: string;
+  requestId: string;
+  client: string;
+  model: string;
+  upstream?: string;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+  stopReason?: string;
+  status: UsageStatus;
+  // status 为 error 时的 Anthropic 错误类型
+  errorType?: string;
+}
+
+// 按 UTC 日期（含首尾，YYYY-MM-DD）、客户端与模型筛选
+export interface UsageFilter {
+  from?: string;
+  to?: string;
+  client?: string;
+  model?: string;
+}
+
+export interface UsageSummaryRow {
+  day: string;
+  client: string;
+  model: string;
+  requests: number;
+  errors: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageSummary {
+  rows: UsageSummaryRow[];
+  totals: { requests: number; errors: number; inputTokens: number; outputTokens: number };
+}
+
+export function matchesUsageFilter(record: UsageRecord, filter: UsageFilter): boolean {
+  const day = record.timestamp.slice(0, 10);
+  return (!filter.from || day >= filter.from) &&
+    (!filter.to || day <= filter.to) &&
+    (!filter.client || record.client === filter.client) &&
+    (!filter.model || record.model === filter.model);
+}
+
+// 按 日期 × 客户端 × 模型 汇总（边读边累加，不在内存中保留原始记录），结果按日期、客户端、模型排序
+export async function summarizeUsage(records: AsyncIterable<UsageRecord> | Iterable<UsageRecord>): Promise<UsageSummary> {
+  const rows = new Map<string, UsageSummaryRow>();
+  const totals = { requests: 0, errors: 0, inputTokens: 0, outputTokens: 0 };
+  for await (const record of records) {
+    const day = record.timestamp.slice(0, 10);
+    const key = JSON.stringify([day, record.client, record.model]);
+    let row = rows.get(key);
+    if (!row) {
+      row = { day, client: record.client, model: record.model, requests: 0, errors: 0, inputTokens: 0, outputTokens: 0 };
+      rows.set(key, row);
+    }
+    const errors = record.status === "error" ? 1 : 0;
+    row.requests++;
+    row.errors += errors;
+    row.inputTokens += record.inputTokens;
+    row.outputTokens += record.outputTokens;
+    totals.requests++;
+    totals.errors += errors;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+  }
+  const sorted = [...rows.values()].sort((a, b) =>
+    a.day.localeCompare(b.day) || a.client.localeCompare(b.client) || a.model.localeCompare(b.model)
+  );
+  return { rows: sorted, totals };
+}
+
+/**
+ * 追加写入的 NDJSON 用量账本。写入按顺序串行进行，写入失败（如只读文件系统）只记录一次警告，
+ * 不影响请求本身。读取时逐行解析，跳过无法解析的行（例如进程崩溃时写了一半的最后一行）。
+ */
+export class UsageLedger {
+  private writes: Promise<void> = Promise.resolve();
+  private warned = false;
+
+  constructor(private readonly path: string) {}
+
+  record(record: UsageRecord): Promise<void> {
+    this.writes = this.writes.then(async () => {
+      try {
+        const slash = this.path.lastIndexOf("/");
+        if (slash > 0) await Deno.mkdir(this.path.slice(0, slash), { recursive: true });
+        await Deno.writeTextFile(this.path, `${JSON.stringify(record)}\n`, { append: true, create: true });
+      } catch (error) {
+        if (this.warned) return;
+        this.warned = true;
+        log("warn", "Failed to write usage ledger, usage will not be persisted", {
+          path: this.path,
+          error: String(error),
+        });
+      }
+    });
+    return this.writes;
+  }
+
+  async *records(filter: UsageFilter = {}): AsyncGenerator<UsageRecord> {
+    let file: Deno.FsFile;
+    try {
+      file = await Deno.open(this.path, { read: true });
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return;
+      throw error;
+    }
+    let buffer = "";
+    for await (const chunk of file.readable.pipeThrough(new TextDecoderStream())) {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        const record = parseLine(line);
+        if (record && matchesUsageFilter(record, filter)) yield record;
+      }
+    }
+    const record = parseLine(buffer);
+    if (record && matchesUsageFilter(record, filter)) yield record;
+  }
+
+  summarize(filter: UsageFilter = {}): Promise<UsageSummary> {
+    return summarizeUsage(this.records(filter));
+  }
+}
+
+function parseLine(line: string): UsageRecord | undefined {
+  if (!line.trim()) return undefined;
+  try {
+    const record = JSON.parse(line);
+    return typeof record?.timestamp === "string" && typeof record?.client === "string" ? record : undefined;
+  } catch {
+    return undefined;
+  }
+}
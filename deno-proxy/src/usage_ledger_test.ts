@@ -0,0 +1,52 @@
+import { summarizeUsage, UsageLedger, UsageRecord } from "./usage_ledger.ts";
+
+function usage(timestamp: string, client: string, model: string, tokens: number, status: UsageRecord["status"]) {
+  return {
+    timestamp,
+    requestId: crypto.randomUUID(),
+    client,
+    model,
+    inputTokens: tokens,
+    outputTokens: tokens * 2,
+    durationMs: 10,
+    status,
+  };
+}
+
+Deno.test("summarizeUsage aggregates by day, client and model", async () => {
+  const summary = await summarizeUsage([
+    usage("2024-05-02T10:00:00.000Z", "bob", "claude-a", 5, "success"),
+    usage("2024-05-01T10:00:00.000Z", "alice", "claude-a", 10, "success"),
+    usage("2024-05-01T23:59:59.000Z", "alice", "claude-a", 1, "error"),
+  ]);
+  const rows = summary.rows.map((row) => [row.day, row.client, row.requests, row.errors, row.outputTokens]);
+  const expected = [["2024-05-01", "alice", 2, 1, 22], ["2024-05-02", "bob", 1, 0, 10]];
+  if (JSON.stringify(rows) !== JSON.stringify(expected)) {
+    throw new Error(`Unexpected rows: ${JSON.stringify(rows)}`);
+  }
+  if (summary.totals.requests !== 3 || summary.totals.inputTokens !== 16) {
+    throw new Error(`Unexpected totals: ${JSON.stringify(summary.totals)}`);
+  }
+});
+
+Deno.test("UsageLedger appends rows, filters them and skips torn lines", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const ledger = new UsageLedger(`${dir}/usage/ledger.ndjson`);
+    await ledger.record(usage("2024-05-01T10:00:00.000Z", "alice", "claude-a", 10, "success"));
+    await ledger.record(usage("2024-05-03T10:00:00.000Z", "alice", "claude-b", 20, "cancelled"));
+    await ledger.record(usage("2024-05-03T11:00:00.000Z", "bob", "claude-a", 30, "success"));
+    await Deno.writeTextFile(`${dir}/usage/ledger.ndjson`, '{"timestamp":"2024-05-0', { append: true });
+
+    const summary = await ledger.summarize({ from: "2024-05-02", client: "alice" });
+    if (summary.rows.length !== 1 || summary.rows[0].model !== "claude-b" || summary.totals.inputTokens !== 20) {
+      throw new Error(`Unexpected summary: ${JSON.stringify(summary)}`);
+    }
+    const missing = await new UsageLedger(`${dir}/missing.ndjson`).summarize();
+    if (missing.totals.requests !== 0) {
+      throw new Error("A missing ledger should summarize to nothing");
+    }
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});